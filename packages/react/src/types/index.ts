@@ -1,7 +1,13 @@
 // Type definitions for React integration
 // TODO: Implement React-specific types for error handling
 
-import { TryError, TryResult, isTryError, createError } from "@try-error/core";
+import {
+  TryError,
+  TryResult,
+  isTryError,
+  createError,
+  getErrorDefinition,
+} from "@try-error/core";
 import { ReactNode, ErrorInfo } from "react";
 
 // ============================================================================
@@ -231,8 +237,14 @@ export function hasFieldErrors(
 
 /**
  * Check if an error is retryable
+ * Errors declared in an error catalog use the catalog's `retryable` flag
  */
 export function isRetryableError(error: unknown): boolean {
+  const definition = getErrorDefinition(error);
+  if (definition?.retryable !== undefined) {
+    return definition.retryable;
+  }
+
   if (!isReactTryError(error)) return false;
 
   // Don't retry validation errors or component unmounted errors
@@ -1,4 +1,4 @@
-import { createError } from "@try-error/core";
+import { createError, defineErrorCatalog } from "@try-error/core";
 import {
   isReactTryError,
   isComponentError,
@@ -190,6 +190,24 @@ describe("Type Predicates", () => {
         expect(isRetryableError(error)).toBe(false);
       });
     });
+
+    it("should use the retryable flag from an error catalog", () => {
+      const catalog = defineErrorCatalog({
+        GatewayTimeout: {
+          code: "R5040",
+          retryable: true,
+          message: "Gateway timed out",
+        },
+        QuotaExceeded: {
+          code: "R4290",
+          retryable: false,
+          message: "Quota exceeded",
+        },
+      });
+
+      expect(isRetryableError(catalog.factories.GatewayTimeout())).toBe(true);
+      expect(isRetryableError(catalog.factories.QuotaExceeded())).toBe(false);
+    });
   });
 
   describe("getComponentName", () => {
@@ -4,8 +4,30 @@
 // Re-export all core functionality
 export * from "./core";
 
+// Typed error classification
+export type {
+  ErrorMapper,
+  ErrorMapperTable,
+  MappedError,
+  ThrownConstructor,
+  ThrownClassification,
+  ThrownClassifier,
+} from "./classify";
+
+export {
+  classifyError,
+  classifyThrown,
+  registerThrownClassifier,
+  unregisterThrownClassifier,
+} from "./classify";
+
 // Export asynchronous error handling
-export type { TryAsyncOptions, ProgressTracker } from "./async";
+export type {
+  TryAsyncOptions,
+  MappedTryAsyncOptions,
+  ProgressTracker,
+  TryGenAsyncUnwrap,
+} from "./async";
 
 export {
   tryAsync,
@@ -13,10 +35,12 @@ export {
   tryAwait,
   tryMapAsync,
   tryChainAsync,
+  tryGenAsync,
   tryAllAsync,
   tryAnyAsync,
   tryAnySequential,
   withTimeout,
+  recoverAsync,
   retry,
   withProgress,
   RateLimiter,
@@ -25,6 +49,11 @@ export {
   createAsyncQueue,
 } from "./async";
 
+// Export cross-thread transfer helpers
+export type { TransferableTryError } from "./worker";
+
+export { toTransferable, fromTransferable, tryInWorker } from "./worker";
+
 // Export async-specific middleware types
 export type { AsyncErrorMiddleware } from "./middleware";
 
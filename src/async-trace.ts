@@ -0,0 +1,158 @@
+/**
+ * Long async stack traces (development only)
+ *
+ * Stack traces of errors thrown after an `await` end at the event loop, so
+ * they don't show who started the failing operation. When
+ * `asyncStackTraces` is enabled, tryAsync, tryAwait and retry record their
+ * call sites in an async scope and append the chain to the stacks of the
+ * errors they produce. When disabled, tracing costs one cached flag check
+ * per operation and operations run without a wrapper.
+ */
+
+import { TryError } from "./types";
+import { getConfig, addConfigChangeListener } from "./config";
+import { ScopeStorage, createScopeStorage } from "./context";
+
+interface AsyncCallSite {
+  readonly operation: string;
+  // Frames shown for this call site
+  readonly frames: readonly string[];
+  // All caller frames, to trim the frames nested call sites share with it
+  readonly callerFrames: readonly string[];
+}
+
+type AsyncTrace = readonly AsyncCallSite[];
+
+// Created the first time tracing is enabled
+let storage: ScopeStorage<AsyncTrace> | null = null;
+
+// Errors whose stack already carries the async trace
+const tracedErrors = new WeakSet<TryError>();
+
+// Cached enabled flag, cleared on config changes
+let tracingEnabled: boolean | undefined;
+let listeningForConfig = false;
+
+/**
+ * Check whether async stack traces are enabled
+ * @internal
+ */
+export function isAsyncTracingEnabled(): boolean {
+  if (tracingEnabled === undefined) {
+    if (!listeningForConfig) {
+      listeningForConfig = true;
+      addConfigChangeListener(() => {
+        tracingEnabled = undefined;
+      });
+    }
+    tracingEnabled =
+      getConfig().asyncStackTraces === true &&
+      !(
+        typeof process !== "undefined" &&
+        process.env?.NODE_ENV === "production"
+      );
+  }
+  return tracingEnabled;
+}
+
+// Location of a stack frame: "(file:line:column)" or "file:line:column"
+const FRAME_LOCATION = /\(?([^()\s]+):\d+:\d+\)?$/;
+
+function getFrameFile(frame: string): string | undefined {
+  return FRAME_LOCATION.exec(frame)?.[1];
+}
+
+/**
+ * Record where a traced operation was started: the caller's frames without
+ * the library's own frames, runtime internals and the frames shared with the
+ * enclosing traced operation
+ */
+function captureCallSite(
+  operation: string,
+  parent: AsyncCallSite | undefined
+): AsyncCallSite {
+  const lines = (new Error().stack ?? "").split("\n");
+  if (/^\w*Error\b/.test(lines[0] ?? "")) {
+    lines.shift();
+  }
+  const frames = lines.map((line) => line.trim()).filter(Boolean);
+
+  // The first frame is this function, so its directory is the library's
+  const ownFile = (frames[0] && getFrameFile(frames[0])) || "";
+  const libraryDir = ownFile.slice(
+    0,
+    Math.max(ownFile.lastIndexOf("/"), ownFile.lastIndexOf("\\")) + 1
+  );
+
+  const callerFrames = frames
+    .filter((frame) => {
+      const file = getFrameFile(frame) ?? "";
+      return (
+        !file.startsWith("node:") &&
+        !(libraryDir && file.startsWith(libraryDir))
+      );
+    })
+    .map((frame) => `    ${frame}`);
+
+  let end = callerFrames.length;
+  if (parent) {
+    let parentEnd = parent.callerFrames.length;
+    while (
+      end > 0 &&
+      parentEnd > 0 &&
+      callerFrames[end - 1] === parent.callerFrames[parentEnd - 1]
+    ) {
+      end--;
+      parentEnd--;
+    }
+  }
+
+  return { operation, frames: callerFrames.slice(0, end), callerFrames };
+}
+
+/**
+ * Run an async operation in a scope that records where it was started
+ *
+ * Callers check `isAsyncTracingEnabled` first, so disabled tracing doesn't
+ * allocate the wrapper function.
+ */
+export function traceAsync<R>(operation: string, fn: () => R): R {
+  if (!isAsyncTracingEnabled()) {
+    return fn();
+  }
+  if (!storage) {
+    storage = createScopeStorage();
+  }
+
+  const trace = storage.getStore() ?? [];
+  const site = captureCallSite(operation, trace[trace.length - 1]);
+  return storage.run([...trace, site], fn);
+}
+
+/**
+ * Append the call sites of the enclosing traced operations to an error's
+ * stack, innermost first
+ *
+ * @returns A copy of the error with the stitched stack, or the error itself
+ * when tracing is off
+ */
+export function attachAsyncTrace<E extends TryError>(error: E): E {
+  const trace = storage?.getStore();
+  if (!trace || trace.length === 0 || tracedErrors.has(error)) {
+    return error;
+  }
+
+  const sections = [...trace]
+    .reverse()
+    .map((site) =>
+      [`    --- ${site.operation} ---`, ...site.frames].join("\n")
+    );
+  const traced = {
+    ...error,
+    stack: [error.stack ?? `${error.type}: ${error.message}`, ...sections].join(
+      "\n"
+    ),
+  };
+  tracedErrors.add(traced);
+  return traced;
+}
@@ -2,15 +2,27 @@ import {
   TryError,
   TryResult,
   TryTuple,
+  TrySuccess,
+  TryFailure,
+  AggregateTryError,
   isTryError,
   TRY_ERROR_BRAND,
 } from "./types";
-import { fromThrown } from "./errors";
+import { fromThrown, createAggregateError } from "./errors";
+import { ErrorMapper, classifyError } from "./classify";
+import { ErrorTypeHandlers, HandledResult, UnhandledErrors } from "./utils";
+import { TryAllOptions } from "./sync";
+import {
+  traceAsync,
+  attachAsyncTrace,
+  isAsyncTracingEnabled,
+} from "./async-trace";
+import { emitErrorRetry, emitErrorRecovered } from "./events";
 
 /**
  * Options for tryAsync function
  */
-export interface TryAsyncOptions {
+export interface TryAsyncOptions<E extends TryError = TryError> {
   /**
    * Custom error type to use instead of automatic detection
    */
@@ -35,8 +47,22 @@ export interface TryAsyncOptions {
    * AbortSignal for cancellation (optional)
    */
   signal?: AbortSignal;
+
+  /**
+   * Classify thrown values into a typed error union
+   * Takes precedence over errorType and narrows the result's error type.
+   * Errors thrown by the mapper itself are rethrown.
+   */
+  mapError?: ErrorMapper<E>;
 }
 
+/**
+ * TryAsyncOptions with a mapError, whose error union types the result
+ */
+export type MappedTryAsyncOptions<E extends TryError> = TryAsyncOptions<E> & {
+  mapError: ErrorMapper<E>;
+};
+
 /**
  * Wrap an asynchronous operation that might throw or reject
  * Returns a Promise of either the result or a TryError
@@ -59,10 +85,27 @@ export interface TryAsyncOptions {
  * }
  * ```
  */
-export async function tryAsync<T>(
+export function tryAsync<T, E extends TryError>(
+  fn: () => Promise<T>,
+  options: MappedTryAsyncOptions<E>
+): Promise<TryResult<T, E>>;
+export function tryAsync<T>(
   fn: () => Promise<T>,
   options?: TryAsyncOptions
-): Promise<TryResult<T, TryError>> {
+): Promise<TryResult<T, TryError>>;
+export async function tryAsync<T, E extends TryError>(
+  fn: () => Promise<T>,
+  options?: TryAsyncOptions<E>
+): Promise<TryResult<T, E | TryError>> {
+  return isAsyncTracingEnabled()
+    ? traceAsync("tryAsync", () => runTryAsync(fn, options))
+    : runTryAsync(fn, options);
+}
+
+async function runTryAsync<T, E extends TryError>(
+  fn: () => Promise<T>,
+  options?: TryAsyncOptions<E>
+): Promise<TryResult<T, E | TryError>> {
   try {
     let promise = fn();
 
@@ -106,8 +149,13 @@ export async function tryAsync<T>(
     const result = await promise;
     return result;
   } catch (error) {
+    // Errors thrown by the mapper propagate rather than widening the result
+    if (options?.mapError) {
+      return attachAsyncTrace(classifyError(error, options.mapError));
+    }
+
     if (options?.errorType) {
-      return {
+      return attachAsyncTrace({
         [TRY_ERROR_BRAND]: true,
         type: options.errorType,
         message:
@@ -117,10 +165,10 @@ export async function tryAsync<T>(
         timestamp: Date.now(),
         cause: error,
         context: options.context,
-      } as TryError;
+      } as TryError);
     }
 
-    return fromThrown(error, options?.context);
+    return attachAsyncTrace(fromThrown(error, options?.context));
   }
 }
 
@@ -146,11 +194,19 @@ export async function tryAsync<T>(
  * }
  * ```
  */
-export async function tryAsyncTuple<T>(
+export function tryAsyncTuple<T, E extends TryError>(
+  fn: () => Promise<T>,
+  options: MappedTryAsyncOptions<E>
+): Promise<TryTuple<T, E>>;
+export function tryAsyncTuple<T>(
   fn: () => Promise<T>,
   options?: TryAsyncOptions
-): Promise<TryTuple<T, TryError>> {
-  const result = await tryAsync(fn, options);
+): Promise<TryTuple<T, TryError>>;
+export async function tryAsyncTuple<T, E extends TryError>(
+  fn: () => Promise<T>,
+  options?: TryAsyncOptions<E>
+): Promise<TryTuple<T, E | TryError>> {
+  const result = await tryAsync<T>(fn, options);
   if (isTryError(result)) {
     return [null, result];
   }
@@ -174,11 +230,21 @@ export async function tryAsyncTuple<T>(
  * }
  * ```
  */
-export async function tryAwait<T>(
+export function tryAwait<T, E extends TryError>(
+  promise: Promise<T>,
+  options: MappedTryAsyncOptions<E>
+): Promise<TryResult<T, E>>;
+export function tryAwait<T>(
   promise: Promise<T>,
   options?: TryAsyncOptions
-): Promise<TryResult<T, TryError>> {
-  return tryAsync(() => promise, options);
+): Promise<TryResult<T, TryError>>;
+export async function tryAwait<T, E extends TryError>(
+  promise: Promise<T>,
+  options?: TryAsyncOptions<E>
+): Promise<TryResult<T, E | TryError>> {
+  return isAsyncTracingEnabled()
+    ? traceAsync("tryAwait", () => runTryAsync(() => promise, options))
+    : runTryAsync(() => promise, options);
 }
 
 /**
@@ -294,11 +360,67 @@ export async function tryChain<T, U, E1 extends TryError, E2 extends TryError>(
   return chainer(result);
 }
 
+/**
+ * Unwrap helper passed to tryGenAsync generator bodies
+ * Accepts a TryResult or a Promise of one; use with `yield*`
+ */
+export type TryGenAsyncUnwrap = <R>(
+  result: R | Promise<R>
+) => AsyncGenerator<TryFailure<R>, TrySuccess<R>, unknown>;
+
+/**
+ * Await a TryResult, yielding its error (ending the generator run) or returning its value
+ */
+async function* unwrapGenAsync<R>(
+  result: R | Promise<R>
+): AsyncGenerator<TryFailure<R>, TrySuccess<R>, unknown> {
+  const resolved = await result;
+  if (isTryError(resolved)) {
+    yield resolved as TryFailure<R>;
+  }
+  return resolved as TrySuccess<R>;
+}
+
+/**
+ * Async generator-based do-notation for chaining TryResults
+ * Short-circuits on the first TryError and infers the union of all error types
+ *
+ * Rejections and thrown exceptions are not caught - wrap those steps in tryAsync.
+ *
+ * @param body - Async generator function that receives the unwrap helper
+ * @returns Promise of the generator's return value or the first error encountered
+ *
+ * @example
+ * ```typescript
+ * const result = await tryGenAsync(async function* ($) {
+ *   const user = yield* $(fetchUser(id));
+ *   const order = yield* $(placeOrder(user));
+ *   return order;
+ * });
+ * // TryResult<Order, UserError | OrderError>
+ * ```
+ */
+export async function tryGenAsync<T, E extends TryError = never>(
+  body: ($: TryGenAsyncUnwrap) => AsyncGenerator<E, T, unknown>
+): Promise<TryResult<T, E>> {
+  const iterator = body(unwrapGenAsync);
+  const step = await iterator.next();
+
+  if (!step.done) {
+    // Run any finally blocks in the generator body before returning the error
+    await iterator.return(undefined as T);
+    return step.value;
+  }
+
+  return step.value;
+}
+
 /**
  * Combine multiple async TryResults, succeeding only if all succeed
  *
  * @param resultPromises - Array of Promise<TryResult> to combine
- * @returns Promise of array of success values or first error encountered
+ * @param options - Set `collectAll` to report every failure
+ * @returns Promise of array of success values, or the first error (an AggregateTryError with `collectAll`)
  *
  * @example
  * ```typescript
@@ -307,12 +429,30 @@ export async function tryChain<T, U, E1 extends TryError, E2 extends TryError>(
  *   tryAsync(() => fetch('/api/posts')),
  *   tryAsync(() => fetch('/api/comments'))
  * ]);
+ *
+ * const fanOut = await tryAllAsync(regions.map(pingRegion), {
+ *   collectAll: true,
+ * });
  * ```
  */
 export async function tryAllAsync<
   T extends readonly Promise<TryResult<any, any>>[]
 >(
-  resultPromises: T
+  resultPromises: T,
+  options: TryAllOptions & { collectAll: true }
+): Promise<
+  TryResult<
+    {
+      [K in keyof T]: T[K] extends Promise<TryResult<infer U, any>> ? U : never;
+    },
+    AggregateTryError<Extract<Awaited<T[number]>, TryError>>
+  >
+>;
+export async function tryAllAsync<
+  T extends readonly Promise<TryResult<any, any>>[]
+>(
+  resultPromises: T,
+  options?: TryAllOptions
 ): Promise<
   TryResult<
     {
@@ -320,18 +460,33 @@ export async function tryAllAsync<
     },
     TryError
   >
-> {
+>;
+export async function tryAllAsync(
+  resultPromises: readonly Promise<unknown>[],
+  options: TryAllOptions = {}
+): Promise<TryResult<unknown[], TryError>> {
   const results = await Promise.all(resultPromises);
-  const values: any[] = [];
+  const values: unknown[] = [];
+  const errors: TryError[] = [];
 
   for (const result of results) {
     if (isTryError(result)) {
-      return result;
+      if (!options.collectAll) {
+        return result;
+      }
+      errors.push(result);
+    } else {
+      values.push(result);
     }
-    values.push(result);
   }
 
-  return values as any;
+  if (errors.length > 0) {
+    return createAggregateError(errors, {
+      message: `${errors.length} of ${results.length} operations failed`,
+    });
+  }
+
+  return values;
 }
 
 /**
@@ -454,6 +609,44 @@ export async function withTimeout<T, E extends TryError>(
   }
 }
 
+/**
+ * Recover from specific error types asynchronously, passing all others through
+ *
+ * Handlers may return promises. Handled variants are removed from the error
+ * union of the returned result.
+ *
+ * @param result - The result (or promise of one) to recover
+ * @param handlers - Fallback handlers keyed by error type
+ * @returns Promise of the success value, a handler's fallback, or the unhandled error
+ *
+ * @example
+ * ```typescript
+ * const user = await recoverAsync(tryAsync(() => fetchUser(id)), {
+ *   NetworkError: () => loadCachedUser(id),
+ * });
+ * ```
+ */
+export async function recoverAsync<
+  T,
+  E extends TryError,
+  H extends ErrorTypeHandlers<E>
+>(
+  result: TryResult<T, E> | Promise<TryResult<T, E>>,
+  handlers: H & Record<Exclude<keyof H, E["type"]>, never>
+): Promise<TryResult<T | Awaited<HandledResult<H>>, UnhandledErrors<E, H>>> {
+  const resolved = await result;
+  if (
+    isTryError(resolved) &&
+    Object.prototype.hasOwnProperty.call(handlers, resolved.type)
+  ) {
+    const handler = handlers[resolved.type as keyof H] as (
+      error: E
+    ) => unknown;
+    return (await handler(resolved)) as Awaited<HandledResult<H>>;
+  }
+  return resolved as T | UnhandledErrors<E, H>;
+}
+
 /**
  * Retry an async operation with exponential backoff
  *
@@ -478,6 +671,15 @@ export async function retry<T>(
     backoffFactor?: number;
     shouldRetry?: (error: TryError, attempt: number) => boolean;
   }
+): Promise<TryResult<T, TryError>> {
+  return isAsyncTracingEnabled()
+    ? traceAsync("retry", () => runRetry(fn, options))
+    : runRetry(fn, options);
+}
+
+async function runRetry<T>(
+  fn: () => Promise<TryResult<T, TryError>>,
+  options: Parameters<typeof retry>[1]
 ): Promise<TryResult<T, TryError>> {
   const {
     attempts,
@@ -493,6 +695,9 @@ export async function retry<T>(
     try {
       const result = await fn();
       if (!isTryError(result)) {
+        if (lastError) {
+          emitErrorRecovered(lastError, { attempts: attempt });
+        }
         return result;
       }
 
@@ -500,6 +705,8 @@ export async function retry<T>(
 
       // Check if we should retry this error
       if (attempt < attempts && shouldRetry(result, attempt)) {
+        emitErrorRetry(result, attempt);
+
         // Calculate delay with overflow protection
         // Use logarithmic check to prevent overflow
         const maxExponent =
@@ -516,9 +723,11 @@ export async function retry<T>(
 
       break;
     } catch (error) {
-      lastError = fromThrown(error);
+      lastError = attachAsyncTrace(fromThrown(error));
 
       if (attempt < attempts && shouldRetry(lastError, attempt)) {
+        emitErrorRetry(lastError, attempt);
+
         // Calculate delay with overflow protection
         // Use logarithmic check to prevent overflow
         const maxExponent =
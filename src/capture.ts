@@ -0,0 +1,217 @@
+/**
+ * Context capture limits
+ *
+ * Enforces `performance.contextCapture`: context attached to an error is
+ * snapshotted (deep-cloned) so later mutations don't leak into the error,
+ * and oversized values are truncated with explicit markers so a single
+ * error can't hold on to large objects or blow up log lines.
+ */
+
+/**
+ * Context capture settings, as set in `performance.contextCapture`
+ */
+export interface ContextCaptureOptions {
+  /**
+   * Approximate maximum context size in bytes (JSON characters)
+   * @default 10240
+   */
+  maxContextSize?: number;
+
+  /**
+   * Whether to deep clone context objects
+   * @default true
+   */
+  deepClone?: boolean;
+}
+
+/**
+ * Result of capturing a context object
+ */
+export interface CapturedContext {
+  /**
+   * The captured context (the original object when it fits and
+   * `deepClone` is false)
+   */
+  readonly context: Record<string, unknown>;
+
+  /**
+   * Whether any value had to be truncated
+   */
+  readonly truncated: boolean;
+}
+
+const DEFAULT_MAX_CONTEXT_SIZE = 10240;
+
+// Key under which truncated objects list how many keys were dropped
+const TRUNCATED_KEYS_MARKER = "…";
+
+interface CaptureState {
+  remaining: number;
+  truncated: boolean;
+  readonly seen: Map<object, unknown>;
+}
+
+function truncationMarker(count: number, unit: string): string {
+  return `[Truncated: ${count} ${unit}]`;
+}
+
+function captureString(value: string, state: CaptureState): string {
+  const size = value.length + 2;
+  if (size <= state.remaining) {
+    state.remaining -= size;
+    return value;
+  }
+
+  const kept = Math.max(0, state.remaining - 2);
+  state.remaining = 0;
+  state.truncated = true;
+  return `${value.slice(0, kept)}${truncationMarker(
+    value.length - kept,
+    "chars"
+  )}`;
+}
+
+function captureEntries(
+  entries: Iterable<[unknown, unknown]>,
+  total: number,
+  unit: "items" | "keys",
+  add: (key: unknown, value: unknown) => void,
+  addMarker: (marker: string) => void,
+  state: CaptureState
+): void {
+  state.remaining -= 2;
+  let index = 0;
+  for (const [key, value] of entries) {
+    if (state.remaining <= 0) {
+      state.truncated = true;
+      addMarker(truncationMarker(total - index, unit));
+      return;
+    }
+    state.remaining -= (typeof key === "string" ? key.length + 3 : 0) + 1;
+    add(key, captureValue(value, state));
+    index++;
+  }
+}
+
+function captureValue(value: unknown, state: CaptureState): unknown {
+  if (typeof value === "string") {
+    return captureString(value, state);
+  }
+  if (typeof value !== "object" || value === null) {
+    state.remaining -= String(value).length;
+    return value;
+  }
+  if (state.seen.has(value)) {
+    return state.seen.get(value);
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    state.seen.set(value, copy);
+    captureEntries(
+      value.entries(),
+      value.length,
+      "items",
+      (_, item) => copy.push(item),
+      (marker) => copy.push(marker),
+      state
+    );
+    return copy;
+  }
+
+  if (value instanceof Date) {
+    state.remaining -= 26;
+    return new Date(value.getTime());
+  }
+
+  if (value instanceof Map) {
+    const copy = new Map<unknown, unknown>();
+    state.seen.set(value, copy);
+    captureEntries(
+      value.entries(),
+      value.size,
+      "items",
+      (key, item) => copy.set(key, item),
+      (marker) => copy.set(TRUNCATED_KEYS_MARKER, marker),
+      state
+    );
+    return copy;
+  }
+
+  if (value instanceof Set) {
+    const copy = new Set<unknown>();
+    state.seen.set(value, copy);
+    captureEntries(
+      Array.from(value, (item): [unknown, unknown] => [undefined, item]),
+      value.size,
+      "items",
+      (_, item) => copy.add(item),
+      (marker) => copy.add(marker),
+      state
+    );
+    return copy;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    // Errors, class instances, ... are kept by reference
+    state.remaining -= 2;
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  state.seen.set(value, copy);
+  const entries = Object.entries(value);
+  captureEntries(
+    entries,
+    entries.length,
+    "keys",
+    (key, item) => {
+      copy[key as string] = item;
+    },
+    (marker) => {
+      copy[TRUNCATED_KEYS_MARKER] = marker;
+    },
+    state
+  );
+  return copy;
+}
+
+/**
+ * Snapshot an error context within the configured size limit
+ *
+ * Strings are cut to fit the remaining budget and end with a
+ * `[Truncated: N chars]` marker; arrays, Maps and Sets end with a
+ * `[Truncated: N items]` entry, and objects get a `"…"` key holding
+ * `[Truncated: N keys]`. Circular references are preserved.
+ *
+ * @param context - The context passed to createError
+ * @param options - Capture limits
+ * @returns The captured context and whether anything was truncated
+ *
+ * @example
+ * ```typescript
+ * const { context, truncated } = captureContext(
+ *   { rows: largeArray },
+ *   { maxContextSize: 1024 }
+ * );
+ * // context.rows ends with "[Truncated: 9950 items]"
+ * ```
+ */
+export function captureContext(
+  context: Record<string, unknown>,
+  options: ContextCaptureOptions = {}
+): CapturedContext {
+  const state: CaptureState = {
+    remaining: options.maxContextSize ?? DEFAULT_MAX_CONTEXT_SIZE,
+    truncated: false,
+    seen: new Map(),
+  };
+  const captured = captureValue(context, state) as Record<string, unknown>;
+
+  return {
+    context:
+      state.truncated || (options.deepClone ?? true) ? captured : context,
+    truncated: state.truncated,
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Declarative error catalogs
+ *
+ * A catalog is the single source of truth for an application's error types:
+ * codes, HTTP statuses, severities and message templates are declared once,
+ * and typed factories, guards and lookups are generated from them.
+ */
+
+import { TryError, isTryError } from "./types";
+import { createErrorWithFields } from "./errors";
+import { formatMessage } from "./messages";
+import type { ErrorFactoryOptions } from "./factories";
+
+/**
+ * Severity levels for catalog entries
+ */
+export type ErrorSeverity = "debug" | "info" | "warning" | "error" | "critical";
+
+/**
+ * Definition of a single error type in a catalog
+ */
+export interface ErrorDefinition {
+  /**
+   * Stable, documented error code (e.g. "E1001")
+   */
+  readonly code: string;
+
+  /**
+   * HTTP status to respond with
+   */
+  readonly status?: number;
+
+  /**
+   * How serious the error is
+   */
+  readonly severity?: ErrorSeverity;
+
+  /**
+   * Whether retrying the failed operation may succeed
+   */
+  readonly retryable?: boolean;
+
+  /**
+   * Message template; `{name}` placeholders are filled from factory params
+   */
+  readonly message: string;
+
+  /**
+   * Longer explanation for generated documentation
+   */
+  readonly description?: string;
+}
+
+/**
+ * Error definitions keyed by error type
+ */
+export type ErrorCatalogDefinitions = Readonly<Record<string, ErrorDefinition>>;
+
+/**
+ * Placeholder names in a message template
+ *
+ * @example
+ * ```typescript
+ * type P = TemplateParams<"User {id} not found in {org}">; // "id" | "org"
+ * ```
+ */
+export type TemplateParams<S extends string> = string extends S
+  ? string
+  : S extends `${string}{${infer P}}${infer Rest}`
+  ? P | TemplateParams<Rest>
+  : never;
+
+/**
+ * Error produced by a catalog factory
+ */
+export type CatalogError<
+  D extends ErrorCatalogDefinitions,
+  K extends keyof D & string = keyof D & string
+> = K extends unknown ? TryError<K> & { readonly code: D[K]["code"] } : never;
+
+/**
+ * Arguments of a catalog factory: params are required when the message
+ * template has placeholders
+ */
+export type CatalogFactoryArgs<D extends ErrorDefinition> = [
+  TemplateParams<D["message"]>
+] extends [never]
+  ? [params?: Record<string, unknown>, options?: ErrorFactoryOptions]
+  : [
+      params: Record<TemplateParams<D["message"]>, unknown> &
+        Record<string, unknown>,
+      options?: ErrorFactoryOptions
+    ];
+
+/**
+ * Typed factories, guards and lookups generated from a catalog definition
+ */
+export interface ErrorCatalog<D extends ErrorCatalogDefinitions> {
+  /**
+   * The definitions the catalog was built from
+   */
+  readonly definitions: D;
+
+  /**
+   * One factory per error type; params fill the message template and
+   * are stored in `context`
+   */
+  readonly factories: {
+    readonly [K in keyof D & string]: (
+      ...args: CatalogFactoryArgs<D[K]>
+    ) => CatalogError<D, K>;
+  };
+
+  /**
+   * One type guard per error type
+   */
+  readonly guards: {
+    readonly [K in keyof D & string]: (
+      value: unknown
+    ) => value is CatalogError<D, K>;
+  };
+
+  /**
+   * Check whether a value is any error from this catalog
+   */
+  is(value: unknown): value is CatalogError<D>;
+
+  /**
+   * Get the definition for an error type or catalog error
+   */
+  getDefinition(typeOrError: unknown): D[keyof D] | undefined;
+
+  /**
+   * Find the error type declared with a code
+   */
+  findByCode(code: string): (keyof D & string) | undefined;
+
+  /**
+   * Get the HTTP status declared for an error
+   */
+  getStatus(typeOrError: unknown): number | undefined;
+
+  /**
+   * Check whether an error is declared as retryable
+   */
+  isRetryable(typeOrError: unknown): boolean;
+}
+
+/**
+ * Union of the errors a catalog can produce
+ *
+ * @example
+ * ```typescript
+ * type AppError = CatalogErrorUnion<typeof AppErrors>;
+ * ```
+ */
+export type CatalogErrorUnion<C> = C extends ErrorCatalog<infer D>
+  ? CatalogError<D>
+  : never;
+
+// Definitions of every catalog, keyed by error type
+const definitionRegistry = new Map<string, ErrorDefinition>();
+
+function getErrorType(typeOrError: unknown): string | undefined {
+  if (typeof typeOrError === "string") {
+    return typeOrError;
+  }
+  return isTryError(typeOrError) ? typeOrError.type : undefined;
+}
+
+/**
+ * Get the catalog definition for an error type or error
+ * Looks across every catalog created with `defineErrorCatalog`
+ *
+ * @param typeOrError - An error type or a TryError
+ * @returns The definition, or undefined if no catalog declares the type
+ *
+ * @example
+ * ```typescript
+ * const status = getErrorDefinition(error)?.status ?? 500;
+ * ```
+ */
+export function getErrorDefinition(
+  typeOrError: unknown
+): ErrorDefinition | undefined {
+  const type = getErrorType(typeOrError);
+  return type === undefined ? undefined : definitionRegistry.get(type);
+}
+
+/**
+ * Define an error catalog
+ *
+ * @param definitions - Error definitions keyed by error type
+ * @returns Typed factories, guards and lookup helpers for the catalog
+ *
+ * @example
+ * ```typescript
+ * const AppErrors = defineErrorCatalog({
+ *   UserNotFound: {
+ *     code: "E1001",
+ *     status: 404,
+ *     severity: "warning",
+ *     retryable: false,
+ *     message: "User {id} not found",
+ *   },
+ *   UpstreamUnavailable: {
+ *     code: "E2001",
+ *     status: 503,
+ *     retryable: true,
+ *     message: "Upstream service unavailable",
+ *   },
+ * });
+ *
+ * type AppError = CatalogErrorUnion<typeof AppErrors>;
+ *
+ * const error = AppErrors.factories.UserNotFound({ id: "42" });
+ * error.message; // "User 42 not found"
+ * error.code; // "E1001"
+ * AppErrors.getStatus(error); // 404
+ * ```
+ */
+export function defineErrorCatalog<const D extends ErrorCatalogDefinitions>(
+  definitions: D
+): ErrorCatalog<D> {
+  const types = Object.keys(definitions) as Array<keyof D & string>;
+  const factories: Record<string, unknown> = {};
+  const guards: Record<string, unknown> = {};
+  const typesByCode = new Map<string, keyof D & string>();
+
+  for (const type of types) {
+    const definition = definitions[type];
+
+    if (typesByCode.has(definition.code)) {
+      throw new Error(
+        `Duplicate error code "${definition.code}" for ${type} and ${String(
+          typesByCode.get(definition.code)
+        )}`
+      );
+    }
+    typesByCode.set(definition.code, type);
+
+    const existing = definitionRegistry.get(type);
+    if (
+      existing &&
+      existing !== definition &&
+      typeof console !== "undefined"
+    ) {
+      console.warn(
+        `Error type "${type}" is already defined in another catalog`
+      );
+    }
+    definitionRegistry.set(type, definition);
+
+    factories[type] = (
+      params: Record<string, unknown> = {},
+      options?: ErrorFactoryOptions
+    ) => {
+      // The code is part of creation, so hooks and events see it
+      return createErrorWithFields(
+        {
+          type,
+          message: formatMessage(definition.message, params),
+          cause: options?.cause,
+          context: { ...params, ...options?.context },
+          source: options?.source,
+          // Report the factory's caller as the source
+          stackOffset: 4,
+        },
+        { code: definition.code }
+      );
+    };
+
+    guards[type] = (value: unknown) =>
+      isTryError(value) &&
+      value.type === type &&
+      (value as TryError & { code?: unknown }).code === definition.code;
+  }
+
+  const getDefinition = (typeOrError: unknown): D[keyof D] | undefined => {
+    const type = getErrorType(typeOrError);
+    return type !== undefined &&
+      Object.prototype.hasOwnProperty.call(definitions, type)
+      ? (definitions[type] as D[keyof D])
+      : undefined;
+  };
+
+  return {
+    definitions,
+    factories: factories as ErrorCatalog<D>["factories"],
+    guards: guards as ErrorCatalog<D>["guards"],
+    is: (value: unknown): value is CatalogError<D> =>
+      isTryError(value) &&
+      Object.prototype.hasOwnProperty.call(guards, value.type) &&
+      (guards[value.type] as (value: unknown) => boolean)(value),
+    getDefinition,
+    findByCode: (code: string) => typesByCode.get(code),
+    getStatus: (typeOrError: unknown) => getDefinition(typeOrError)?.status,
+    isRetryable: (typeOrError: unknown) =>
+      getDefinition(typeOrError)?.retryable === true,
+  };
+}
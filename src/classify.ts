@@ -0,0 +1,355 @@
+/**
+ * Typed error classification for thrown values
+ *
+ * An error mapper turns an unknown thrown value into a member of a
+ * user-declared error union, so `trySync`/`tryAsync` can return
+ * `TryResult<T, PaymentError | NetworkError>` instead of a generic TryError.
+ */
+
+import { TryError } from "./types";
+
+/**
+ * Constructor that thrown values can be matched against with `instanceof`
+ */
+export type ThrownConstructor = abstract new (...args: any[]) => unknown;
+
+/**
+ * Lookup table for classifying thrown values
+ */
+export interface ErrorMapperTable<E extends TryError> {
+  /**
+   * Rules matched with `instanceof`, checked in order
+   */
+  constructors?: ReadonlyArray<
+    readonly [ThrownConstructor, (error: any) => E]
+  >;
+
+  /**
+   * Rules keyed on the thrown value's `code` property (e.g. "ECONNRESET")
+   * Checked after constructors
+   */
+  codes?: Readonly<Record<string, (error: any) => E>>;
+
+  /**
+   * Mapping used when no rule matches
+   */
+  fallback: (error: unknown) => E;
+}
+
+/**
+ * Maps a thrown value to a typed error, either as a function or a lookup table
+ */
+export type ErrorMapper<E extends TryError> =
+  | ((error: unknown) => E)
+  | ErrorMapperTable<E>;
+
+/**
+ * Extract the error union produced by an ErrorMapper
+ */
+export type MappedError<M> = M extends ErrorMapper<infer E> ? E : never;
+
+/**
+ * Read a string `code` from a thrown value, if present
+ */
+function getThrownCode(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null || !("code" in error)) {
+    return undefined;
+  }
+  const code = (error as { code: unknown }).code;
+  return typeof code === "string" || typeof code === "number"
+    ? String(code)
+    : undefined;
+}
+
+/**
+ * Classify a thrown value with an error mapper
+ *
+ * @param error - The thrown value
+ * @param mapper - Mapper function or lookup table
+ * @returns The typed error produced by the first matching rule
+ *
+ * @example
+ * ```typescript
+ * const mapper: ErrorMapper<NetworkError | UnknownError> = {
+ *   constructors: [[TypeError, (e) => createError({ type: "NetworkError", message: e.message })]],
+ *   codes: { ECONNRESET: (e) => createError({ type: "NetworkError", message: e.message }) },
+ *   fallback: (e) => createError({ type: "UnknownError", message: String(e) }),
+ * };
+ * const error = classifyError(thrown, mapper);
+ * ```
+ */
+export function classifyError<E extends TryError>(
+  error: unknown,
+  mapper: ErrorMapper<E>
+): E {
+  if (typeof mapper === "function") {
+    return mapper(error);
+  }
+
+  if (mapper.constructors) {
+    for (const [ctor, map] of mapper.constructors) {
+      if (error instanceof ctor) {
+        return map(error);
+      }
+    }
+  }
+
+  if (mapper.codes) {
+    const code = getThrownCode(error);
+    if (
+      code !== undefined &&
+      Object.prototype.hasOwnProperty.call(mapper.codes, code)
+    ) {
+      return mapper.codes[code](error);
+    }
+  }
+
+  return mapper.fallback(error);
+}
+
+// ============================================================================
+// THROWN VALUE CLASSIFIERS
+// ============================================================================
+
+/**
+ * Result of classifying a thrown value
+ */
+export interface ThrownClassification {
+  /**
+   * Error type for the resulting TryError
+   */
+  type: string;
+
+  /**
+   * Message override (defaults to the thrown error's message)
+   */
+  message?: string;
+
+  /**
+   * Structured fields extracted from the thrown value
+   */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Recognizes a kind of thrown value, or returns undefined to pass
+ */
+export type ThrownClassifier = (
+  error: unknown
+) => ThrownClassification | undefined;
+
+/**
+ * Error types for well-known Node.js system error codes
+ */
+const SYSTEM_ERROR_TYPES: Readonly<Record<string, string>> = {
+  ENOENT: "FileNotFound",
+  EACCES: "PermissionDenied",
+  EPERM: "PermissionDenied",
+  EEXIST: "FileExists",
+  EISDIR: "IsDirectory",
+  ENOTDIR: "NotDirectory",
+  ENOTEMPTY: "DirectoryNotEmpty",
+  EMFILE: "TooManyOpenFiles",
+  ECONNREFUSED: "ConnectionRefused",
+  ECONNRESET: "ConnectionReset",
+  ETIMEDOUT: "TimeoutError",
+  ENOTFOUND: "HostNotFound",
+  EAI_AGAIN: "HostNotFound",
+  EADDRINUSE: "AddressInUse",
+  EPIPE: "BrokenPipe",
+};
+
+const SYSTEM_ERROR_FIELDS = [
+  "code",
+  "errno",
+  "syscall",
+  "path",
+  "dest",
+  "address",
+  "port",
+  "hostname",
+] as const;
+
+/**
+ * Messages used by fetch implementations for network failures
+ * (undici, Chromium, Firefox, Safari, React Native)
+ */
+const FETCH_FAILURE_MESSAGE =
+  /^(fetch failed|Failed to fetch|NetworkError when attempting to fetch resource\.?|Load failed|Network request failed)$/;
+
+/**
+ * Copy the structured fields of a Node.js system error
+ */
+function getSystemErrorFields(
+  error: unknown
+): Record<string, unknown> | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const fields: Record<string, unknown> = {};
+  let found = false;
+  for (const field of SYSTEM_ERROR_FIELDS) {
+    const value = (error as Record<string, unknown>)[field];
+    if (value !== undefined) {
+      fields[field] = value;
+      found = true;
+    }
+  }
+  return found ? fields : undefined;
+}
+
+function hasErrorName(error: unknown, name: string): boolean {
+  const isErrorLike =
+    error instanceof Error ||
+    (typeof DOMException !== "undefined" && error instanceof DOMException);
+  return isErrorLike && (error as Error).name === name;
+}
+
+/**
+ * Node.js system errors (fs, net, dns, ...) keyed on their `code`
+ */
+function classifySystemError(
+  error: unknown
+): ThrownClassification | undefined {
+  const code = getThrownCode(error);
+  if (code === undefined) {
+    return undefined;
+  }
+
+  const syscall = (error as { syscall?: unknown }).syscall;
+  const type = Object.prototype.hasOwnProperty.call(SYSTEM_ERROR_TYPES, code)
+    ? SYSTEM_ERROR_TYPES[code]
+    : typeof syscall === "string"
+    ? "SystemError"
+    : undefined;
+
+  return type ? { type, context: getSystemErrorFields(error) } : undefined;
+}
+
+/**
+ * DOMException AbortError / TimeoutError (e.g. from AbortSignal.timeout)
+ */
+function classifyAbortError(error: unknown): ThrownClassification | undefined {
+  if (hasErrorName(error, "AbortError")) {
+    return { type: "AbortError" };
+  }
+  if (hasErrorName(error, "TimeoutError")) {
+    return { type: "TimeoutError" };
+  }
+  return undefined;
+}
+
+/**
+ * TypeErrors thrown by fetch when the request never got a response
+ */
+function classifyFetchError(error: unknown): ThrownClassification | undefined {
+  if (
+    !(error instanceof TypeError) ||
+    !FETCH_FAILURE_MESSAGE.test(error.message)
+  ) {
+    return undefined;
+  }
+  // undici reports the underlying system error as the cause
+  const cause = (error as { cause?: unknown }).cause;
+  return { type: "NetworkError", context: getSystemErrorFields(cause) };
+}
+
+/**
+ * SyntaxErrors thrown by JSON.parse, with the parse position when known
+ */
+function classifyJsonError(error: unknown): ThrownClassification | undefined {
+  if (!(error instanceof SyntaxError) || !/JSON/.test(error.message)) {
+    return undefined;
+  }
+
+  const context: Record<string, unknown> = { format: "json" };
+  const position = error.message.match(/position (\d+)/);
+  if (position) {
+    context.position = Number(position[1]);
+  }
+  const location = error.message.match(/line (\d+) column (\d+)/);
+  if (location) {
+    context.line = Number(location[1]);
+    context.column = Number(location[2]);
+  }
+  return { type: "SyntaxError", context };
+}
+
+const builtinClassifiers: readonly ThrownClassifier[] = [
+  classifyAbortError,
+  classifyFetchError,
+  classifyJsonError,
+  classifySystemError,
+];
+
+const customClassifiers: ThrownClassifier[] = [];
+
+/**
+ * Register a classifier used by `fromThrown` (and so by `trySync`/`tryAsync`)
+ * Custom classifiers run in registration order, before the built-in ones
+ *
+ * @param classifier - Function returning a classification, or undefined to pass
+ *
+ * @example
+ * ```typescript
+ * registerThrownClassifier((error) =>
+ *   error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025"
+ *     ? { type: "NotFound", context: { model: error.meta?.modelName } }
+ *     : undefined
+ * );
+ * ```
+ */
+export function registerThrownClassifier(classifier: ThrownClassifier): void {
+  if (!customClassifiers.includes(classifier)) {
+    customClassifiers.push(classifier);
+  }
+}
+
+/**
+ * Remove a classifier registered with `registerThrownClassifier`
+ *
+ * @returns True if the classifier was registered
+ */
+export function unregisterThrownClassifier(
+  classifier: ThrownClassifier
+): boolean {
+  const index = customClassifiers.indexOf(classifier);
+  if (index === -1) {
+    return false;
+  }
+  customClassifiers.splice(index, 1);
+  return true;
+}
+
+/**
+ * Classify a thrown value with the registered and built-in classifiers
+ *
+ * @param error - The thrown value
+ * @returns The first matching classification, or undefined
+ */
+export function classifyThrown(
+  error: unknown
+): ThrownClassification | undefined {
+  for (const classifier of customClassifiers) {
+    try {
+      const classification = classifier(error);
+      if (classification) {
+        return classification;
+      }
+    } catch (classifierError) {
+      // Log warning but continue with the remaining classifiers
+      if (typeof console !== "undefined") {
+        console.warn("Thrown value classifier failed:", classifierError);
+      }
+    }
+  }
+
+  for (const classifier of builtinClassifiers) {
+    const classification = classifier(error);
+    if (classification) {
+      return classification;
+    }
+  }
+
+  return undefined;
+}
@@ -6,7 +6,11 @@
  * optimizations more accessible.
  */
 
-import { TryError } from "./types";
+import { TryError, setOutputRedactor } from "./types";
+import { RedactConfig, redactError } from "./redact";
+import type { SourceMapResolver } from "./sourcemap";
+import type { StackFormatter } from "./stack";
+import type { DedupeWindowOptions } from "./dedupe";
 
 /**
  * Global configuration state (only created when used)
@@ -127,6 +131,13 @@ export interface TryErrorConfig {
    */
   stackTraceLimit?: number;
 
+  /**
+   * Filter and format captured stack traces, e.g.
+   * `createStackFormatter({ hideNodeModules: true, hideInternals: true })`.
+   * Returning undefined drops the stack.
+   */
+  stackFormatter?: StackFormatter;
+
   /**
    * Include source location in errors
    * @default true
@@ -192,6 +203,29 @@ export interface TryErrorConfig {
    */
   developmentMode?: boolean;
 
+  /**
+   * Record where tryAsync, tryAwait and retry operations start and append
+   * those call sites to the stacks of errors they produce.
+   * Development only: ignored when NODE_ENV is "production"
+   * @default false
+   */
+  asyncStackTraces?: boolean;
+
+  /**
+   * Map `source` and stack frames of created errors back to the original
+   * sources, resolved on first access. Use `createSourceMapResolver` to
+   * read local `.map` files.
+   */
+  sourceMapResolver?: SourceMapResolver;
+
+  /**
+   * Fold repeats of the same error (by fingerprint) created within a time
+   * window into one representative error with an `occurrences` counter.
+   * Repeats skip onError, handlers and events; an `error:deduplicated`
+   * event summarizes them when the window closes.
+   */
+  dedupeWindow?: DedupeWindowOptions;
+
   /**
    * Custom error serialization function
    */
@@ -199,6 +233,8 @@ export interface TryErrorConfig {
 
   /**
    * Global error transformation hook
+   * Receives a redacted copy under a serialization-mode `redact` policy;
+   * return it unchanged to keep the unredacted error
    */
   onError?: (error: TryError) => TryError;
 
@@ -218,6 +254,13 @@ export interface TryErrorConfig {
     edge?: (error: TryError) => TryError;
   };
 
+  /**
+   * Redaction policy for sensitive context, messages and stacks
+   * Applied when errors are serialized, logged or reported, or at creation
+   * time with `mode: "creation"`
+   */
+  redact?: RedactConfig;
+
   /**
    * Performance optimization configuration
    */
@@ -789,6 +832,19 @@ export function configure(
 
   // Increment version to invalidate caches
   configVersionTracker.increment();
+  updateOutputRedactor();
+}
+
+/**
+ * Hand the serialization-mode redaction policy to serializeTryError
+ */
+function updateOutputRedactor(): void {
+  const policy = globalConfig?.redact;
+  setOutputRedactor(
+    policy && policy.mode !== "creation"
+      ? (error) => redactError(error, policy)
+      : undefined
+  );
 }
 
 /**
@@ -817,6 +873,7 @@ export function resetConfig(): void {
   globalConfig = null;
   // Increment version to invalidate caches
   configVersionTracker.increment();
+  updateOutputRedactor();
 }
 
 /**
@@ -913,6 +970,7 @@ export function withErrorService(
     ...options,
     onError: (error) => {
       try {
+        // createError already passes onError a redacted copy
         handler(error);
       } catch (e) {
         // Don't let error service failures break the app
@@ -0,0 +1,219 @@
+/**
+ * Ambient error context
+ *
+ * `withErrorContext` opens a scope whose context (request ids, tenant ids,
+ * ...) is merged into every error created inside it. On Node (and runtimes
+ * that provide `AsyncLocalStorage`) the scope follows async continuations;
+ * elsewhere it falls back to a synchronous stack that only covers code run
+ * before the first `await`.
+ *
+ * Where `node:async_hooks` can't be loaded synchronously (the ESM build on
+ * Node versions without `process.getBuiltinModule`), it is imported when
+ * this module loads; scopes opened before that import settles use the
+ * synchronous stack.
+ */
+
+type ErrorContextStore = Readonly<Record<string, unknown>>;
+
+/**
+ * Scoped storage with the AsyncLocalStorage `run`/`getStore` interface
+ * @internal
+ */
+export interface ScopeStorage<T> {
+  run<R>(store: T, fn: () => R): R;
+  getStore(): T | undefined;
+}
+
+type AsyncLocalStorageConstructor = new <T>() => ScopeStorage<T>;
+
+/**
+ * Find AsyncLocalStorage without a static import, so browser bundles don't
+ * pull in node:async_hooks
+ */
+function findAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+  const global = globalThis as { AsyncLocalStorage?: unknown };
+  if (typeof global.AsyncLocalStorage === "function") {
+    return global.AsyncLocalStorage as AsyncLocalStorageConstructor;
+  }
+
+  // Non-literal specifier keeps browser bundlers from resolving the module
+  const specifier = "node:async_hooks";
+  try {
+    const hooks =
+      typeof process !== "undefined" &&
+      typeof process.getBuiltinModule === "function"
+        ? process.getBuiltinModule(specifier)
+        : typeof require === "function"
+        ? require(specifier)
+        : undefined;
+    return (hooks as { AsyncLocalStorage?: AsyncLocalStorageConstructor })
+      ?.AsyncLocalStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+let asyncLocalStorageImport:
+  | Promise<AsyncLocalStorageConstructor | undefined>
+  | undefined;
+let importedAsyncLocalStorage: AsyncLocalStorageConstructor | undefined;
+
+/**
+ * Import AsyncLocalStorage on Node when it can't be loaded synchronously
+ */
+function importAsyncLocalStorage():
+  | Promise<AsyncLocalStorageConstructor | undefined>
+  | undefined {
+  if (typeof process === "undefined" || !process.versions?.node) {
+    return undefined;
+  }
+
+  if (!asyncLocalStorageImport) {
+    const specifier = "node:async_hooks";
+    asyncLocalStorageImport = import(specifier).then(
+      (hooks: { AsyncLocalStorage?: AsyncLocalStorageConstructor }) =>
+        (importedAsyncLocalStorage = hooks.AsyncLocalStorage),
+      () => undefined
+    );
+  }
+  return asyncLocalStorageImport;
+}
+
+// Without a synchronous loader, start the import when this module loads so
+// it has usually settled before the first scope opens
+if (
+  typeof require !== "function" &&
+  (typeof process === "undefined" ||
+    typeof process.getBuiltinModule !== "function")
+) {
+  importAsyncLocalStorage();
+}
+
+let warnedSyncFallback = false;
+
+function warnSyncFallback(): void {
+  if (!warnedSyncFallback && typeof console !== "undefined") {
+    warnedSyncFallback = true;
+    console.warn(
+      "AsyncLocalStorage is unavailable; error context scopes won't follow " +
+        "async continuations"
+    );
+  }
+}
+
+/**
+ * Synchronous fallback: scopes end when their callback returns
+ */
+class StackScopeStorage<T> implements ScopeStorage<T> {
+  private stack: T[] = [];
+
+  run<R>(store: T, fn: () => R): R {
+    this.stack.push(store);
+    try {
+      return fn();
+    } finally {
+      this.stack.pop();
+    }
+  }
+
+  getStore(): T | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+}
+
+/**
+ * Synchronous fallback that switches to AsyncLocalStorage once it has been
+ * imported
+ */
+class DeferredScopeStorage<T> implements ScopeStorage<T> {
+  private storage: ScopeStorage<T> = new StackScopeStorage<T>();
+
+  constructor(pending: Promise<AsyncLocalStorageConstructor | undefined>) {
+    // Settles in a microtask, when no synchronous scope is open
+    pending.then((AsyncLocalStorage) => {
+      if (AsyncLocalStorage) {
+        this.storage = new AsyncLocalStorage<T>();
+      } else {
+        warnSyncFallback();
+      }
+    });
+  }
+
+  run<R>(store: T, fn: () => R): R {
+    return this.storage.run(store, fn);
+  }
+
+  getStore(): T | undefined {
+    return this.storage.getStore();
+  }
+}
+
+/**
+ * Create scoped storage that follows async continuations where the runtime
+ * supports it
+ * @internal
+ */
+export function createScopeStorage<T>(): ScopeStorage<T> {
+  const AsyncLocalStorage =
+    importedAsyncLocalStorage ?? findAsyncLocalStorage();
+  if (AsyncLocalStorage) {
+    return new AsyncLocalStorage<T>();
+  }
+
+  const pending = importAsyncLocalStorage();
+  return pending
+    ? new DeferredScopeStorage<T>(pending)
+    : new StackScopeStorage<T>();
+}
+
+// Created on first use so modules that never open a scope pay nothing
+let storage: ScopeStorage<ErrorContextStore> | null = null;
+
+function getStorage(): ScopeStorage<ErrorContextStore> {
+  if (!storage) {
+    storage = createScopeStorage();
+  }
+  return storage;
+}
+
+/**
+ * Run a function with context merged into every error created inside it
+ *
+ * Applies to errors from `createError`, `wrapError`, `fromThrown`, factories
+ * and everything built on them. Nested scopes layer on top of outer ones,
+ * and context passed explicitly to an error wins over ambient context.
+ *
+ * @param context - Context to attach (e.g. `{ requestId, tenantId }`)
+ * @param fn - The function to run inside the scope
+ * @returns Whatever `fn` returns (including its promise)
+ *
+ * @example
+ * ```typescript
+ * app.use((req, res, next) =>
+ *   withErrorContext({ requestId: req.id, userId: req.user?.id }, next)
+ * );
+ *
+ * // Anywhere further down the request:
+ * const result = await tryAsync(() => db.findOrder(id));
+ * // result.context includes requestId and userId
+ * ```
+ */
+export function withErrorContext<R>(
+  context: Record<string, unknown>,
+  fn: () => R
+): R {
+  const store = getStorage();
+  return store.run({ ...store.getStore(), ...context }, fn);
+}
+
+/**
+ * Get the ambient error context of the current scope
+ *
+ * @returns The merged context of all enclosing scopes, or undefined outside
+ * of `withErrorContext`
+ */
+export function getAmbientErrorContext():
+  | Readonly<Record<string, unknown>>
+  | undefined {
+  return storage?.getStore();
+}
@@ -10,23 +10,52 @@ export type {
   TryFailure,
   UnwrapTry,
   UnwrapTryError,
+  AggregateTryError,
+  ErrorReviver,
+  DeserializationError,
+  DeserializeOptions,
+  SafeDeserializeOptions,
 } from "./types";
 
 // Re-export core type guards and utilities
 export {
   isTryError,
   isTrySuccess,
+  isAggregateTryError,
   matchTryResult,
   unwrapTryResult,
   serializeTryError,
   deserializeTryError,
   areTryErrorsEqual,
   cloneTryError,
+  TRY_ERROR_SCHEMA_VERSION,
+  registerErrorReviver,
+  unregisterErrorReviver,
+  isDeserializationError,
 } from "./types";
 
 // Re-export minimal error creation utilities
-export type { CreateErrorOptions } from "./errors";
-export { createError, wrapError, fromThrown } from "./errors";
+export type {
+  CreateErrorOptions,
+  CreateAggregateErrorOptions,
+} from "./errors";
+export {
+  createError,
+  wrapError,
+  createAggregateError,
+  fromThrown,
+  toNativeError,
+  NativeTryError,
+} from "./errors";
+
+// Re-export message templates and locales
+export type { LocaleMessages } from "./messages";
+export {
+  formatMessage,
+  registerLocale,
+  unregisterLocale,
+  getLocaleMessage,
+} from "./messages";
 
 // Re-export configuration (tree-shakeable)
 export type { TryErrorConfig, PerformanceConfig } from "./config";
@@ -53,6 +82,7 @@ export {
   emitErrorWrapped,
   emitErrorRetry,
   emitErrorRecovered,
+  emitErrorDeduplicated,
 } from "./events";
 
 // Re-export performance optimizations (used by both)
@@ -82,7 +112,7 @@ export const FEATURES = /*#__PURE__*/ Object.freeze({
   serialization: true,
   errorComparison: true,
   errorCloning: true,
-  asyncStackTraces: false,
+  asyncStackTraces: true,
   objectPooling: true,
   lazyEvaluation: true,
   eventSystem: true,
@@ -0,0 +1,188 @@
+/**
+ * Error storm protection
+ *
+ * With `dedupeWindow` configured, the first error of each fingerprint opens
+ * a window. Repeats created within the window return that same
+ * representative error and only increment its `occurrences`: they skip
+ * `onError`, environment handlers and events. The counter is updated on the
+ * representative itself, so `onError` and event listeners that keep it see
+ * the final count. When the window closes, an `error:deduplicated` event
+ * reports how many times the error occurred; error metrics and the error
+ * history add the repeats to their counts then.
+ *
+ * @example
+ * ```typescript
+ * configure({ dedupeWindow: { windowMs: 1000 } });
+ *
+ * errorEvents.on("error:deduplicated", (event) => {
+ *   reporter.send(event.error, { occurrences: event.occurrences });
+ * });
+ * ```
+ */
+
+import { TryError, TRY_ERROR_BRAND } from "./types";
+import { getErrorFingerprint } from "./utils";
+import { emitErrorDeduplicated } from "./events";
+
+/**
+ * Options for the createError deduplication window
+ */
+export interface DedupeWindowOptions {
+  /**
+   * How long repeats of an error are folded into the first one (ms)
+   */
+  windowMs: number;
+
+  /**
+   * Fields passed to `getErrorFingerprint`. They are read from the
+   * createError options, so `source` only counts when given explicitly
+   * (e.g. injected at build time).
+   * @default ["type", "message"]
+   */
+  fields?: Array<keyof TryError>;
+
+  /**
+   * Maximum number of open windows; the oldest window is closed early when
+   * a new fingerprint would exceed it
+   * @default 1000
+   */
+  maxWindows?: number;
+}
+
+const DEFAULT_MAX_WINDOWS = 1000;
+
+interface DedupeWindow {
+  readonly error: TryError & { occurrences: number };
+  readonly openedAt: number;
+  readonly timer: ReturnType<typeof setTimeout>;
+}
+
+// Open windows by fingerprint, oldest first
+const windows = new Map<string, DedupeWindow>();
+
+// Fingerprints whose representative is being created
+const openingWindows = new Set<string>();
+
+function closeWindow(fingerprint: string): void {
+  const window = windows.get(fingerprint);
+  if (!window) {
+    return;
+  }
+
+  clearTimeout(window.timer);
+  windows.delete(fingerprint);
+  // Nothing was suppressed for errors that occurred once
+  if (window.error.occurrences > 1) {
+    emitErrorDeduplicated(
+      window.error,
+      window.error.occurrences,
+      window.openedAt
+    );
+  }
+}
+
+/**
+ * Fingerprint the error createError is about to build
+ * @internal
+ */
+export function getDedupeFingerprint(
+  options: {
+    type: string;
+    message: string;
+    source?: string;
+    context?: Record<string, unknown>;
+    cause?: unknown;
+  },
+  dedupe: DedupeWindowOptions,
+  fields?: Readonly<Record<string, unknown>>
+): string {
+  // Extra fields such as an aggregate's errors are part of the fingerprint
+  return getErrorFingerprint(
+    {
+      ...fields,
+      [TRY_ERROR_BRAND]: true,
+      type: options.type,
+      message: options.message,
+      source: options.source ?? "",
+      timestamp: 0,
+      context: options.context,
+      cause: options.cause,
+    },
+    dedupe.fields
+  );
+}
+
+/**
+ * Count a repeat of an open window's error
+ *
+ * @returns The representative error, or undefined without an open window
+ * @internal
+ */
+export function recordRepeat(fingerprint: string): TryError | undefined {
+  const window = windows.get(fingerprint);
+  if (!window) {
+    return undefined;
+  }
+  window.error.occurrences++;
+  return window.error;
+}
+
+/**
+ * Whether the representative of a fingerprint is being created
+ *
+ * Errors with that fingerprint created meanwhile, e.g. by `onError`, are
+ * created as usual instead of being folded into the representative.
+ * @internal
+ */
+export function isDedupeWindowOpening(fingerprint: string): boolean {
+  return openingWindows.has(fingerprint);
+}
+
+/**
+ * Open a window with a newly created error as its representative
+ *
+ * @param create - Creates the representative
+ * @returns The created error, carrying the `occurrences` counter
+ * @internal
+ */
+export function openDedupeWindow<E extends TryError>(
+  fingerprint: string,
+  create: () => E,
+  dedupe: DedupeWindowOptions
+): E {
+  let error: E;
+  openingWindows.add(fingerprint);
+  try {
+    error = create();
+  } finally {
+    openingWindows.delete(fingerprint);
+  }
+
+  const maxWindows = dedupe.maxWindows ?? DEFAULT_MAX_WINDOWS;
+  while (windows.size >= Math.max(1, maxWindows)) {
+    closeWindow(windows.keys().next().value as string);
+  }
+
+  const representative = Object.assign(error, { occurrences: 1 });
+  const timer = setTimeout(() => closeWindow(fingerprint), dedupe.windowMs);
+  // Open windows shouldn't keep Node processes alive
+  (timer as { unref?: () => void }).unref?.();
+
+  windows.set(fingerprint, {
+    error: representative,
+    openedAt: Date.now(),
+    timer,
+  });
+  return representative;
+}
+
+/**
+ * Close all open deduplication windows now, emitting their summaries
+ *
+ * Useful before shutdown, so suppressed repeats are still reported.
+ */
+export function flushErrorDedupe(): void {
+  for (const fingerprint of [...windows.keys()]) {
+    closeWindow(fingerprint);
+  }
+}
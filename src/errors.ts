@@ -1,13 +1,33 @@
-import { TryError, TRY_ERROR_BRAND } from "./types";
+import {
+  TryError,
+  AggregateTryError,
+  TRY_ERROR_BRAND,
+  isTryError,
+} from "./types";
 import {
   getConfig,
   getConfigVersion,
   addConfigChangeListener,
   removeConfigChangeListener,
+  Performance,
+  TryErrorConfig,
 } from "./config";
 import { getGlobalErrorPool } from "./pool";
-import { createLazyError } from "./lazy";
-import { emitErrorCreated } from "./events";
+import { createLazyError, createLazyProperty } from "./lazy";
+import { errorEvents, emitErrorCreated } from "./events";
+import { classifyThrown } from "./classify";
+import { formatMessage } from "./messages";
+import { redactErrorOptions, redactForOutput } from "./redact";
+import { captureContext } from "./capture";
+import { getAmbientErrorContext } from "./context";
+import { applySourceMapResolver } from "./sourcemap";
+import { parseStackFrame, formatStack } from "./stack";
+import {
+  getDedupeFingerprint,
+  recordRepeat,
+  openDedupeWindow,
+  isDedupeWindowOpening,
+} from "./dedupe";
 
 // Performance optimization: Use WeakMap for config cache
 const configCache = new WeakMap<
@@ -28,6 +48,9 @@ let cachedIsProduction: boolean | null = null;
 const errorCache = new Map<string, TryError>();
 const MAX_ERROR_CACHE_SIZE = 1000;
 
+// Original TryErrors behind native errors produced by toNativeError
+const nativeErrorOrigins = new WeakMap<Error, TryError>();
+
 // Listen for config changes to clear caches
 addConfigChangeListener(() => {
   cachedIsProduction = null;
@@ -80,6 +103,12 @@ export interface CreateErrorOptions<T extends string = string> {
    */
   context?: Record<string, unknown>;
 
+  /**
+   * Treat `message` as a template (e.g. "Order {orderId} exceeds {limit}")
+   * filled from `context` the first time the message is read
+   */
+  interpolate?: boolean;
+
   /**
    * The original error or thrown value that caused this error
    */
@@ -213,19 +242,6 @@ function detectEnvironmentAndRuntime(): {
   return { environment, runtime };
 }
 
-/**
- * Detect the JavaScript environment (cached)
- */
-function detectEnvironment():
-  | "node"
-  | "chrome"
-  | "firefox"
-  | "safari"
-  | "edge"
-  | "unknown" {
-  return detectEnvironmentAndRuntime().environment;
-}
-
 /**
  * Detect the current runtime environment
  * @returns The detected runtime environment
@@ -235,62 +251,32 @@ function detectRuntime(): "server" | "client" | "edge" {
 }
 
 /**
- * Stack trace parsers for different environments
+ * Milliseconds since a start time, if one was taken
  */
-const stackParsers = {
-  // V8 (Chrome, Node.js, Edge)
-  v8: (line: string): { file: string; line: string; column: string } | null => {
-    // Format: "    at functionName (file:line:column)" or "    at file:line:column"
-    // Updated regex to handle various V8 formats including minified code
-    const patterns = [
-      // "    at functionName (file:line:column)"
-      /\s+at\s+.*?\s+\((.+):(\d+):(\d+)\)/,
-      // "    at file:line:column"
-      /\s+at\s+(.+):(\d+):(\d+)$/,
-      // "    at async functionName (file:line:column)"
-      /\s+at\s+async\s+.*?\s+\((.+):(\d+):(\d+)\)/,
-      // "    at Object.<anonymous> (file:line:column)"
-      /\s+at\s+Object\.<anonymous>\s+\((.+):(\d+):(\d+)\)/,
-      // Minified format: "at a.b.c (file:line:column)"
-      /\s+at\s+[a-zA-Z$_][\w$]*(?:\.[a-zA-Z$_][\w$]*)*\s+\((.+):(\d+):(\d+)\)/,
-      // Eval or anonymous: "at eval (eval at <anonymous> (file:line:column))"
-      /\s+at\s+eval\s+\(eval\s+at\s+.*?\((.+):(\d+):(\d+)\)/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = line.match(pattern);
-      if (match) {
-        return { file: match[1], line: match[2], column: match[3] };
-      }
-    }
-    return null;
-  },
-
-  // Firefox
-  firefox: (
-    line: string
-  ): { file: string; line: string; column: string } | null => {
-    // Format: "functionName@file:line:column"
-    // Handle minified: "a@file:line:column"
-    const match = line.match(/(?:.*@)?(.+):(\d+):(\d+)/);
-    if (match) {
-      return { file: match[1], line: match[2], column: match[3] };
-    }
-    return null;
-  },
-
-  // Safari
-  safari: (
-    line: string
-  ): { file: string; line: string; column: string } | null => {
-    // Format: "functionName@file:line:column" or "global code@file:line:column"
-    const match = line.match(/(?:.*@)?(.+):(\d+):(\d+)/);
-    if (match) {
-      return { file: match[1], line: match[2], column: match[3] };
+function elapsedSince(startTime: number | undefined): number | undefined {
+  return startTime === undefined ? undefined : Performance.now() - startTime;
+}
+
+/**
+ * Apply the configured stack formatter to a captured stack
+ */
+function applyStackFormatter(
+  stack: string | undefined,
+  config: ReturnType<typeof getConfig>
+): string | undefined {
+  if (!stack || !config.stackFormatter) {
+    return stack;
+  }
+  try {
+    return formatStack(stack, config.stackFormatter);
+  } catch (error) {
+    // Keep the raw stack if the formatter fails
+    if (typeof console !== "undefined") {
+      console.warn("Stack formatter failed:", error);
     }
-    return null;
-  },
-};
+    return stack;
+  }
+}
 
 /**
  * Extract source location from stack trace
@@ -346,34 +332,8 @@ function getSourceLocation(stackOffset: number = 2): string {
 
     if (!targetLine) return "unknown";
 
-    // Detect environment and use appropriate parser
-    const env = detectEnvironment();
-    let parser: (
-      line: string
-    ) => { file: string; line: string; column: string } | null;
-
-    switch (env) {
-      case "node":
-      case "chrome":
-      case "edge":
-        parser = stackParsers.v8;
-        break;
-      case "firefox":
-        parser = stackParsers.firefox;
-        break;
-      case "safari":
-        parser = stackParsers.safari;
-        break;
-      default:
-        // Try all parsers
-        parser = (line) =>
-          stackParsers.v8(line) ||
-          stackParsers.firefox(line) ||
-          stackParsers.safari(line);
-    }
-
-    const result = parser(targetLine);
-    if (result) {
+    const result = parseStackFrame(targetLine);
+    if (result && result.line !== undefined && result.column !== undefined) {
       // Handle file path based on configuration
       const fullPath = result.file;
       const filename = fullPath.split("/").pop() || fullPath;
@@ -383,8 +343,8 @@ function getSourceLocation(stackOffset: number = 2): string {
       if (config.sourceLocation?.formatter) {
         return config.sourceLocation.formatter(
           file,
-          result.line,
-          result.column
+          String(result.line),
+          String(result.column)
         );
       }
 
@@ -442,6 +402,46 @@ function getErrorCacheKey(
   return `${type}:${message}:${contextStr}`;
 }
 
+/**
+ * createError with fields beyond the standard ones (e.g. an aggregate's
+ * `errors` or a factory's domain fields), set before redaction, hooks,
+ * events and the cache see the error
+ * @internal
+ */
+export const createErrorWithFields = createError as <T extends string>(
+  options: CreateErrorOptions<T>,
+  fields: Readonly<Record<string, unknown>> | undefined
+) => TryError<T>;
+
+/**
+ * Run the onError hook
+ *
+ * With a serialization-mode redaction policy the hook sees a redacted copy;
+ * the created error is kept unless the hook returns a different error.
+ */
+function callOnError<E extends TryError>(
+  config: TryErrorConfig,
+  error: E
+): E {
+  const input = redactForOutput(error, config.redact);
+  const output = config.onError!(input) as E;
+  return output === input ? error : output;
+}
+
+/**
+ * Fill a templated message from the error's context on first access
+ */
+function defineTemplatedMessage(
+  error: TryError,
+  template: string | undefined
+): void {
+  if (template !== undefined) {
+    createLazyProperty(error, "message", () =>
+      formatMessage(template, error.context)
+    );
+  }
+}
+
 /**
  * Create a TryError with automatic source location detection
  *
@@ -457,16 +457,96 @@ function getErrorCacheKey(
  * });
  * ```
  */
-export function createError<T extends string = string>(
+export function createError<const T extends string = string>(
   options: CreateErrorOptions<T>
+): TryError<T>;
+export function createError<const T extends string = string>(
+  options: CreateErrorOptions<T>,
+  fields?: Readonly<Record<string, unknown>>
 ): TryError<T> {
   const config = getCachedConfig();
 
-  // Check if object pooling is enabled
-  const usePooling = config.performance?.errorCreation?.objectPooling ?? false;
+  // Repeats within the dedupe window share one representative error
+  const dedupe = config.dedupeWindow;
+  const fingerprint = dedupe
+    ? getDedupeFingerprint(options, dedupe, fields)
+    : "";
+  if (dedupe && !isDedupeWindowOpening(fingerprint)) {
+    const repeated = recordRepeat(fingerprint);
+    if (repeated) {
+      return repeated as TryError<T>;
+    }
+
+    // Skips this call, the callback and openDedupeWindow
+    return openDedupeWindow(
+      fingerprint,
+      () =>
+        createErrorWithFields(
+          {
+            ...options,
+            stackOffset:
+              (options.stackOffset ??
+                config.sourceLocation?.defaultStackOffset ??
+                3) + 3,
+          },
+          fields
+        ),
+      dedupe
+    );
+  }
+
+  // Creation time is only measured for error:created listeners (metrics)
+  const startTime =
+    errorEvents.getListenerCount("error:created") > 0
+      ? Performance.now()
+      : undefined;
+
+  // Merge the ambient context of enclosing withErrorContext scopes
+  const ambientContext = getAmbientErrorContext();
+  if (ambientContext) {
+    options = {
+      ...options,
+      context: { ...ambientContext, ...options.context },
+    };
+  }
+
+  if (config.redact?.mode === "creation") {
+    ({ options, fields } = redactErrorOptions(options, config.redact, fields));
+  }
+
+  // Enforce context size limits and snapshot the context
+  let contextTruncated: true | undefined;
+  const contextCapture = config.performance?.contextCapture;
+  if (contextCapture && options.context && !config.skipContext) {
+    const captured = captureContext(options.context, contextCapture);
+    options = { ...options, context: captured.context };
+    contextTruncated = captured.truncated || undefined;
+  }
+
+  // Check if object pooling is enabled; pooled objects only reset the
+  // standard fields
+  const usePooling =
+    !fields && (config.performance?.errorCreation?.objectPooling ?? false);
   const useLazyEvaluation =
     config.performance?.errorCreation?.lazyStackTrace ?? false;
 
+  // Templated messages are filled from the final context on first access.
+  // Pooled and minimal errors are plain reused objects, so format them now.
+  let messageTemplate: string | undefined;
+  if (options.interpolate) {
+    if (usePooling || config.minimalErrors) {
+      options = {
+        ...options,
+        message: formatMessage(
+          options.message,
+          config.skipContext ? undefined : options.context
+        ),
+      };
+    } else {
+      messageTemplate = options.message;
+    }
+  }
+
   // Check error cache for deduplication
   const cacheKey = getErrorCacheKey(
     options.type,
@@ -474,7 +554,14 @@ export function createError<T extends string = string>(
     options.context
   );
   const cachedError = errorCache.get(cacheKey);
-  if (cachedError && options.captureStackTrace === undefined) {
+  // Dedupe representatives keep their own counter, and errors with extra
+  // fields aren't described by the key, so neither are reused
+  if (
+    cachedError &&
+    !fields &&
+    options.captureStackTrace === undefined &&
+    cachedError.occurrences === undefined
+  ) {
     return cachedError as TryError<T>;
   }
 
@@ -483,7 +570,8 @@ export function createError<T extends string = string>(
     return createMinimalError(
       options.type,
       options.message,
-      config.skipContext ? undefined : options.context
+      config.skipContext ? undefined : options.context,
+      fields
     );
   }
 
@@ -517,9 +605,15 @@ export function createError<T extends string = string>(
                 Error.stackTraceLimit = config.stackTraceLimit;
                 const stack = error.stack;
                 Error.stackTraceLimit = originalLimit;
-                return stack?.replace(/^Error:/, `${options.type}:`);
+                return applyStackFormatter(
+                  stack?.replace(/^Error:/, `${options.type}:`),
+                  config
+                );
               }
-              return error.stack?.replace(/^Error:/, `${options.type}:`);
+              return applyStackFormatter(
+                error.stack?.replace(/^Error:/, `${options.type}:`),
+                config
+              );
             } catch {
               return undefined;
             }
@@ -530,13 +624,22 @@ export function createError<T extends string = string>(
       context: config.skipContext ? undefined : options.context,
       cause: options.cause,
     });
+    if (contextTruncated) {
+      Object.assign(lazyError, { contextTruncated });
+    }
+    if (fields) {
+      Object.assign(lazyError, fields);
+    }
+    defineTemplatedMessage(lazyError, messageTemplate);
 
     // Apply transformations
-    let transformedError = lazyError;
+    let transformedError = config.sourceMapResolver
+      ? applySourceMapResolver(lazyError, config.sourceMapResolver)
+      : lazyError;
 
     if (config.onError) {
       try {
-        transformedError = config.onError(transformedError) as TryError<T>;
+        transformedError = callOnError(config, transformedError);
       } catch (error) {
         // Log warning but continue with untransformed error
         if (typeof console !== "undefined") {
@@ -569,10 +672,12 @@ export function createError<T extends string = string>(
         errorCache.delete(firstKey);
       }
     }
-    errorCache.set(cacheKey, transformedError);
+    if (!fields) {
+      errorCache.set(cacheKey, transformedError);
+    }
 
     // Emit error created event
-    emitErrorCreated(transformedError);
+    emitErrorCreated(transformedError, elapsedSince(startTime));
 
     return transformedError;
   }
@@ -595,6 +700,7 @@ export function createError<T extends string = string>(
         stack: undefined,
         context: config.skipContext ? undefined : options.context,
         cause: options.cause,
+        contextTruncated,
       });
 
       error = pooledError as TryError<T>;
@@ -608,16 +714,21 @@ export function createError<T extends string = string>(
         stack: undefined,
         context: config.skipContext ? undefined : options.context,
         cause: options.cause,
+        ...(contextTruncated && { contextTruncated }),
+        ...fields,
       };
     }
+    defineTemplatedMessage(error, messageTemplate);
 
     // Apply transformations
-    let transformedError = error;
+    let transformedError = config.sourceMapResolver
+      ? applySourceMapResolver(error, config.sourceMapResolver)
+      : error;
 
     // Apply global error transformation if configured
     if (config.onError) {
       try {
-        transformedError = config.onError(transformedError) as TryError<T>;
+        transformedError = callOnError(config, transformedError);
       } catch (error) {
         // Log warning but continue with untransformed error
         if (typeof console !== "undefined") {
@@ -652,10 +763,12 @@ export function createError<T extends string = string>(
         errorCache.delete(firstKey);
       }
     }
-    errorCache.set(cacheKey, transformedError);
+    if (!fields) {
+      errorCache.set(cacheKey, transformedError);
+    }
 
     // Emit error created event
-    emitErrorCreated(transformedError);
+    emitErrorCreated(transformedError, elapsedSince(startTime));
 
     return transformedError;
   }
@@ -688,6 +801,7 @@ export function createError<T extends string = string>(
       if (stack) {
         stack = stack.replace(/^Error:/, `${options.type}:`);
       }
+      stack = applyStackFormatter(stack, config);
     } catch {
       // Stack trace capture failed, continue without it
     }
@@ -709,6 +823,7 @@ export function createError<T extends string = string>(
       stack: stack,
       context: options.context,
       cause: options.cause,
+      contextTruncated,
     });
 
     error = pooledError as TryError<T>;
@@ -722,16 +837,21 @@ export function createError<T extends string = string>(
       stack,
       context: options.context,
       cause: options.cause,
+      ...(contextTruncated && { contextTruncated }),
+      ...fields,
     };
   }
+  defineTemplatedMessage(error, messageTemplate);
 
   // Apply transformations
-  let transformedError = error;
+  let transformedError = config.sourceMapResolver
+    ? applySourceMapResolver(error, config.sourceMapResolver)
+    : error;
 
   // Apply global error transformation if configured
   if (config.onError) {
     try {
-      transformedError = config.onError(transformedError) as TryError<T>;
+      transformedError = callOnError(config, transformedError);
     } catch (error) {
       // Log warning but continue with untransformed error
       if (typeof console !== "undefined") {
@@ -766,10 +886,12 @@ export function createError<T extends string = string>(
       errorCache.delete(firstKey);
     }
   }
-  errorCache.set(cacheKey, transformedError);
+  if (!fields) {
+    errorCache.set(cacheKey, transformedError);
+  }
 
   // Emit error created event
-  emitErrorCreated(transformedError);
+  emitErrorCreated(transformedError, elapsedSince(startTime));
 
   return transformedError;
 }
@@ -781,6 +903,7 @@ export function createError<T extends string = string>(
  * @param cause - The original error or thrown value
  * @param message - Optional custom message (defaults to cause message)
  * @param context - Optional additional context
+ * @param source - Optional source location (usually injected at build time)
  * @returns A TryError wrapping the original error
  *
  * @example
@@ -792,12 +915,28 @@ export function createError<T extends string = string>(
  * }
  * ```
  */
-export function wrapError<T extends string = string>(
+export function wrapError<const T extends string = string>(
   type: T,
   cause: unknown,
   message?: string,
-  context?: Record<string, unknown>
+  context?: Record<string, unknown>,
+  source?: string
 ): TryError<T> {
+  // Rebuild errors that were converted with toNativeError
+  const original = getOriginalTryError(cause);
+  if (original) {
+    if (original.type === type && !message && !context) {
+      return original as TryError<T>;
+    }
+    return createError({
+      type,
+      message: message || original.message,
+      cause: original,
+      context,
+      source,
+    });
+  }
+
   // Extract message from cause if not provided
   let errorMessage = message;
   if (!errorMessage) {
@@ -815,17 +954,77 @@ export function wrapError<T extends string = string>(
     message: errorMessage,
     cause,
     context,
+    source,
   });
 }
 
+/**
+ * Options for creating an AggregateTryError
+ */
+export interface CreateAggregateErrorOptions<T extends string = string> {
+  /**
+   * The error type for the aggregate
+   * @default "AggregateError"
+   */
+  type?: T;
+
+  /**
+   * Human-readable error message
+   * @default "<n> errors occurred"
+   */
+  message?: string;
+
+  /**
+   * Additional context data for debugging
+   */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Create an AggregateTryError grouping several errors
+ *
+ * @param errors - The errors to group
+ * @param options - Optional type, message and context for the aggregate
+ * @returns A TryError carrying the typed `errors` array
+ *
+ * @example
+ * ```typescript
+ * const error = createAggregateError(validationErrors, {
+ *   type: "BatchValidationError",
+ *   message: `${validationErrors.length} rows are invalid`,
+ * });
+ * error.errors.forEach((e) => console.error(e.message));
+ * ```
+ */
+export function createAggregateError<
+  E extends TryError,
+  const T extends string = "AggregateError"
+>(
+  errors: readonly E[],
+  options: CreateAggregateErrorOptions<T> = {}
+): AggregateTryError<E, T> {
+  // Added during creation, so onError, events and the history see them
+  return createErrorWithFields(
+    {
+      type: (options.type ?? "AggregateError") as T,
+      message: options.message ?? `${errors.length} errors occurred`,
+      context: options.context,
+    },
+    { errors: [...errors] }
+  ) as AggregateTryError<E, T>;
+}
+
 /**
  * Create a minimal error for performance-critical paths
  * This bypasses all expensive operations like stack trace capture
+ *
+ * @param fields - Extra fields, set before the error is emitted
  */
 export function createMinimalError<T extends string = string>(
   type: T,
   message: string,
-  context?: Record<string, unknown>
+  context?: Record<string, unknown>,
+  fields?: Readonly<Record<string, unknown>>
 ): TryError<T> {
   const config = getCachedConfig();
 
@@ -838,6 +1037,7 @@ export function createMinimalError<T extends string = string>(
     stack: undefined,
     context: config.skipContext ? undefined : context,
     cause: undefined,
+    ...fields,
   } as TryError<T>;
 
   // Emit error created event
@@ -849,8 +1049,14 @@ export function createMinimalError<T extends string = string>(
 /**
  * Create a TryError from a thrown value with automatic type detection
  *
+ * Registered classifiers run first, then the built-in ones for Node.js
+ * system errors (e.g. ENOENT → "FileNotFound"), DOMException AbortError and
+ * TimeoutError, fetch network failures ("NetworkError") and JSON.parse
+ * SyntaxErrors. Structured fields such as `code` and `path` go to `context`.
+ *
  * @param cause - The thrown value
  * @param context - Optional additional context
+ * @param source - Optional source location (usually injected at build time)
  * @returns A TryError with appropriate type based on the cause
  *
  * @example
@@ -864,27 +1070,149 @@ export function createMinimalError<T extends string = string>(
  */
 export function fromThrown(
   cause: unknown,
-  context?: Record<string, unknown>
+  context?: Record<string, unknown>,
+  source?: string
 ): TryError {
+  const original = getOriginalTryError(cause);
+  if (original) {
+    return context
+      ? { ...original, context: { ...original.context, ...context } }
+      : original;
+  }
+
+  const classification = classifyThrown(cause);
+  if (classification) {
+    return wrapError(
+      classification.type,
+      cause,
+      classification.message,
+      classification.context || context
+        ? { ...classification.context, ...context }
+        : undefined,
+      source
+    );
+  }
+
   if (cause instanceof TypeError) {
-    return wrapError("TypeError", cause, undefined, context);
+    return wrapError("TypeError", cause, undefined, context, source);
   }
 
   if (cause instanceof ReferenceError) {
-    return wrapError("ReferenceError", cause, undefined, context);
+    return wrapError("ReferenceError", cause, undefined, context, source);
   }
 
   if (cause instanceof SyntaxError) {
-    return wrapError("SyntaxError", cause, undefined, context);
+    return wrapError("SyntaxError", cause, undefined, context, source);
   }
 
   if (cause instanceof Error) {
-    return wrapError("Error", cause, undefined, context);
+    return wrapError("Error", cause, undefined, context, source);
   }
 
   if (typeof cause === "string") {
-    return wrapError("StringError", cause, cause, context);
+    return wrapError("StringError", cause, cause, context, source);
+  }
+
+  return wrapError(
+    "UnknownError",
+    cause,
+    "An unknown error occurred",
+    context,
+    source
+  );
+}
+
+// ============================================================================
+// NATIVE ERROR INTEROP
+// ============================================================================
+
+const RESERVED_ERROR_KEYS = new Set(["name", "message", "stack", "cause"]);
+
+/**
+ * Native Error produced from a TryError by `toNativeError`
+ *
+ * `name` carries the TryError's type, context entries are copied onto the
+ * error as own properties, and `cause` follows the ES2022 convention.
+ */
+export class NativeTryError<E extends TryError = TryError> extends Error {
+  declare name: E["type"];
+  declare readonly cause?: unknown;
+
+  constructor(error: E) {
+    super(error.message);
+    this.name = error.type;
+
+    if (error.stack) {
+      this.stack = error.stack;
+    }
+
+    if (error.context) {
+      for (const [key, value] of Object.entries(error.context)) {
+        if (!RESERVED_ERROR_KEYS.has(key)) {
+          (this as unknown as Record<string, unknown>)[key] = value;
+        }
+      }
+    }
+
+    nativeErrorOrigins.set(this, error);
   }
+}
 
-  return wrapError("UnknownError", cause, "An unknown error occurred", context);
+/**
+ * Get the TryError a native error was created from, if any
+ */
+function getOriginalTryError(value: unknown): TryError | undefined {
+  return value instanceof Error ? nativeErrorOrigins.get(value) : undefined;
+}
+
+function convertToNativeError<E extends TryError>(
+  error: E,
+  seen: Map<TryError, Error>
+): NativeTryError<E> {
+  const existing = seen.get(error);
+  if (existing) {
+    return existing as NativeTryError<E>;
+  }
+
+  // Register before converting the cause so cyclic chains terminate
+  const native = new NativeTryError(error);
+  seen.set(error, native);
+
+  if (error.cause !== undefined) {
+    const cause = isTryError(error.cause)
+      ? convertToNativeError(error.cause, seen)
+      : error.cause;
+    Object.defineProperty(native, "cause", {
+      value: cause,
+      writable: true,
+      configurable: true,
+      enumerable: false,
+    });
+  }
+
+  return native;
+}
+
+/**
+ * Convert a TryError into a native Error for throw-based code
+ *
+ * TryError causes are converted as well, so the whole chain is made of
+ * Errors. `fromThrown` and `wrapError` recognize the result and rebuild
+ * the original TryError.
+ *
+ * @param error - The TryError to convert
+ * @returns An Error subclass whose `name` is the TryError's type
+ *
+ * @example
+ * ```typescript
+ * const result = trySync(() => loadConfig());
+ * if (isTryError(result)) {
+ *   throw toNativeError(result); // e.g. name "ConfigError", error.cause chain intact
+ * }
+ * ```
+ */
+export function toNativeError<E extends TryError>(
+  error: E
+): NativeTryError<E> {
+  return convertToNativeError(error, new Map());
 }
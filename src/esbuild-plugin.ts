@@ -0,0 +1,87 @@
+/**
+ * esbuild plugin for build-time source location injection
+ *
+ * Injects static source locations into createError, wrapError, fromThrown
+ * and factory calls imported from try-error while esbuild loads each file,
+ * so bundled code never parses stack traces to find where errors were
+ * created.
+ *
+ * @example
+ * ```typescript
+ * import { build } from "esbuild";
+ * import { sourceInjectionPlugin } from "@try-error/core/esbuild";
+ *
+ * await build({
+ *   entryPoints: ["src/index.ts"],
+ *   bundle: true,
+ *   plugins: [sourceInjectionPlugin({ rootDir: "src" })],
+ * });
+ * ```
+ */
+
+import type { Loader, Plugin } from "esbuild";
+import { promises as fs } from "fs";
+import { injectSourceLocations, SourceInjectionOptions } from "./transformer";
+
+/**
+ * Options for the esbuild plugin
+ */
+export interface SourceInjectionPluginOptions extends SourceInjectionOptions {
+  /**
+   * Files to process
+   * @default /\.[cm]?[jt]sx?$/
+   */
+  filter?: RegExp;
+
+  /**
+   * Also process files inside node_modules
+   * @default false
+   */
+  includeNodeModules?: boolean;
+}
+
+const LOADERS: Readonly<Record<string, Loader>> = {
+  ts: "ts",
+  mts: "ts",
+  cts: "ts",
+  tsx: "tsx",
+  js: "js",
+  mjs: "js",
+  cjs: "js",
+  jsx: "jsx",
+};
+
+/**
+ * Create an esbuild plugin that injects source locations
+ *
+ * Files without target calls are left to esbuild's default loader.
+ *
+ * @param options - Extra target functions, path formatting and file filter
+ * @returns The esbuild plugin
+ */
+export function sourceInjectionPlugin(
+  options: SourceInjectionPluginOptions = {}
+): Plugin {
+  const { filter = /\.[cm]?[jt]sx?$/, includeNodeModules = false } = options;
+
+  return {
+    name: "try-error-source-injection",
+    setup(build) {
+      build.onLoad({ filter, namespace: "file" }, async (args) => {
+        if (!includeNodeModules && /[\\/]node_modules[\\/]/.test(args.path)) {
+          return undefined;
+        }
+
+        const extension = args.path.slice(args.path.lastIndexOf(".") + 1);
+        const loader = LOADERS[extension];
+        if (!loader) {
+          return undefined;
+        }
+
+        const code = await fs.readFile(args.path, "utf8");
+        const contents = injectSourceLocations(code, args.path, options);
+        return contents === code ? undefined : { contents, loader };
+      });
+    },
+  };
+}
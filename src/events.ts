@@ -11,7 +11,13 @@ import { TryError } from "./types";
  * Error lifecycle events
  */
 export type ErrorEvent =
-  | { type: "error:created"; error: TryError; timestamp: number }
+  | {
+      type: "error:created";
+      error: TryError;
+      timestamp: number;
+      // Creation time in ms, measured while error:created has listeners
+      duration?: number;
+    }
   | {
       type: "error:transformed";
       original: TryError;
@@ -38,6 +44,13 @@ export type ErrorEvent =
       error: TryError;
       recovery: any;
       timestamp: number;
+    }
+  | {
+      type: "error:deduplicated";
+      error: TryError;
+      occurrences: number;
+      windowStart: number;
+      timestamp: number;
     };
 
 /**
@@ -209,11 +222,12 @@ export const errorEvents = new ErrorEventEmitter();
 /**
  * Emit error created event
  */
-export function emitErrorCreated(error: TryError): void {
+export function emitErrorCreated(error: TryError, duration?: number): void {
   errorEvents.emit({
     type: "error:created",
     error,
     timestamp: Date.now(),
+    ...(duration !== undefined && { duration }),
   });
 }
 
@@ -301,3 +315,20 @@ export function emitErrorRecovered(error: TryError, recovery: any): void {
     timestamp: Date.now(),
   });
 }
+
+/**
+ * Emit error deduplicated event
+ */
+export function emitErrorDeduplicated(
+  error: TryError,
+  occurrences: number,
+  windowStart: number
+): void {
+  errorEvents.emit({
+    type: "error:deduplicated",
+    error,
+    occurrences,
+    windowStart,
+    timestamp: Date.now(),
+  });
+}
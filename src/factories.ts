@@ -5,8 +5,14 @@
  * error types while maintaining all the benefits of the base TryError system.
  */
 
-import { TryError, serializeTryError } from "./types";
-import { createError } from "./errors";
+import {
+  TryError,
+  ErrorReviver,
+  serializeTryError,
+  registerErrorReviver,
+  registerDefaultErrorReviver,
+} from "./types";
+import { createError, createErrorWithFields } from "./errors";
 
 // Factory registry for discovery
 const factoryRegistry = new Map<string, Function>();
@@ -24,6 +30,22 @@ const factoryCache = new WeakMap<Function, Map<string, TryError>>();
 export interface ErrorFactoryOptions {
   cause?: unknown;
   context?: Record<string, unknown>;
+  /**
+   * Source location, usually injected at build time
+   */
+  source?: string;
+}
+
+/**
+ * Lists the required fields missing from domain fields
+ */
+function findMissingFields<T extends Record<string, any>>(
+  fields: T,
+  required: Array<keyof T>
+): string[] {
+  return required
+    .filter((field) => fields[field] === undefined || fields[field] === null)
+    .map((field) => `Required field '${String(field)}' is missing`);
 }
 
 /**
@@ -33,10 +55,9 @@ function validateRequiredFields<T extends Record<string, any>>(
   fields: T,
   required: Array<keyof T>
 ): void {
-  for (const field of required) {
-    if (fields[field] === undefined || fields[field] === null) {
-      throw new Error(`Required field '${String(field)}' is missing`);
-    }
+  const [missing] = findMissingFields(fields, required);
+  if (missing) {
+    throw new Error(missing);
   }
 }
 
@@ -49,6 +70,8 @@ function validateRequiredFields<T extends Record<string, any>>(
  * @param defaultFields - Default fields to include in all errors from this factory
  * @param requiredFields - Fields that must be provided when creating errors
  * @param factoryName - Optional name for registry
+ * @param revivalTypes - Error types to validate with `requiredFields` on
+ * deserialization right away; the factory also registers each type it creates
  * @returns A factory function for creating errors of type E
  *
  * @example
@@ -68,13 +91,36 @@ function validateRequiredFields<T extends Record<string, any>>(
  *   transactionId: "tx_123",
  *   amount: 99.99
  * });
+ *
+ * // Revive payment errors received by a service that doesn't create them
+ * createErrorFactory<PaymentErrorType, PaymentError>(
+ *   { provider: "stripe" },
+ *   ["transactionId", "amount"],
+ *   "payment",
+ *   ["CardDeclined", "InsufficientFunds", "ProcessingError"]
+ * );
+ * const revived = deserializeTryError<PaymentErrorType, PaymentError>(
+ *   payload,
+ *   { revive: true }
+ * );
  * ```
  */
 export function createErrorFactory<T extends string, E extends TryError<T>>(
   defaultFields?: Partial<Omit<E, keyof TryError>>,
   requiredFields?: Array<keyof Omit<E, keyof TryError>>,
-  factoryName?: string
+  factoryName?: string,
+  revivalTypes?: readonly T[]
 ) {
+  // Validate deserialized errors of this factory's types with its rules
+  const reviver: ErrorReviver = (error) =>
+    findMissingFields(
+      error as unknown as Omit<E, keyof TryError>,
+      requiredFields ?? []
+    );
+  if (revivalTypes) {
+    registerErrorReviver(revivalTypes, reviver);
+  }
+
   const factory = function createDomainError(
     type: T,
     message: string,
@@ -85,6 +131,7 @@ export function createErrorFactory<T extends string, E extends TryError<T>>(
     if (requiredFields && domainFields) {
       validateRequiredFields(domainFields, requiredFields);
     }
+    registerDefaultErrorReviver(type, reviver);
 
     // Check cache
     const cacheKey = `${type}:${message}:${JSON.stringify(domainFields)}`;
@@ -99,19 +146,17 @@ export function createErrorFactory<T extends string, E extends TryError<T>>(
       return cached as E;
     }
 
-    // Create the error
-    const baseError = createError({
-      type,
-      message,
-      cause: options?.cause,
-      context: options?.context,
-    });
-
-    const error = {
-      ...baseError,
-      ...defaultFields,
-      ...domainFields,
-    } as E;
+    // Domain fields are part of creation, so redaction and hooks see them
+    const error = createErrorWithFields(
+      {
+        type,
+        message,
+        cause: options?.cause,
+        context: options?.context,
+        source: options?.source,
+      },
+      { ...defaultFields, ...domainFields }
+    ) as E;
 
     // Cache the error
     cache.set(cacheKey, error);
@@ -196,22 +241,8 @@ export function composeFactories<T extends string, E extends TryError<T>>(
 export function serializeDomainError<E extends TryError>(
   error: E
 ): Record<string, unknown> {
-  // Get base serialization
-  const base = serializeTryError(error);
-
-  // Add all domain-specific fields
-  const domainFields: Record<string, unknown> = {};
-
-  for (const key in error) {
-    if (error.hasOwnProperty(key) && !(key in base)) {
-      domainFields[key] = error[key];
-    }
-  }
-
-  return {
-    ...base,
-    ...domainFields,
-  };
+  // serializeTryError keeps domain fields, redacted like the base fields
+  return serializeTryError(error);
 }
 
 // ============================================================================
@@ -434,6 +465,81 @@ export function wrapWithContext<E extends TryError>(
   };
 }
 
+// ============================================================================
+// DOMAIN FIELD VALIDATION AND REVIVAL
+// ============================================================================
+
+/**
+ * Rules for EntityError fields
+ */
+function checkEntityFields(fields: {
+  entityType?: unknown;
+  entityId?: unknown;
+}): string[] {
+  return !fields.entityType || !fields.entityId
+    ? ["entityType and entityId are required for entity errors"]
+    : [];
+}
+
+/**
+ * Rules for AmountError fields
+ */
+function checkAmountFields(fields: {
+  amount?: unknown;
+  currency?: unknown;
+}): string[] {
+  return typeof fields.amount !== "number" || !fields.currency
+    ? ["amount (number) and currency are required for amount errors"]
+    : [];
+}
+
+/**
+ * Rules for ExternalError fields
+ */
+function checkExternalFields(fields: { provider?: unknown }): string[] {
+  return !fields.provider ? ["provider is required for external errors"] : [];
+}
+
+/**
+ * Rules for ValidationError fields
+ */
+function checkValidationFields(fields: {
+  fields?: unknown;
+  code?: unknown;
+}): string[] {
+  if (!fields.fields || typeof fields.fields !== "object" || !fields.code) {
+    return ["fields (object) and code are required for validation errors"];
+  }
+
+  return Object.entries(fields.fields)
+    .filter(([, errors]) => !Array.isArray(errors))
+    .map(([field]) => `Field '${field}' must have an array of error messages`);
+}
+
+/**
+ * Revivers applying the built-in factories' rules on deserialization
+ *
+ * The built-in factories register them for each type they create; register
+ * them yourself for types a process only receives.
+ *
+ * @example
+ * ```typescript
+ * registerErrorReviver(["UserNotFound", "OrderCancelled"], entityErrorReviver);
+ * registerErrorReviver("CardDeclined", amountErrorReviver);
+ * ```
+ */
+export const entityErrorReviver: ErrorReviver = (error) =>
+  checkEntityFields(error as Partial<EntityError<string>>);
+
+export const amountErrorReviver: ErrorReviver = (error) =>
+  checkAmountFields(error as Partial<AmountError<string>>);
+
+export const externalErrorReviver: ErrorReviver = (error) =>
+  checkExternalFields(error as Partial<ExternalError<string>>);
+
+export const validationErrorReviver: ErrorReviver = (error) =>
+  checkValidationFields(error as Partial<ValidationError<string>>);
+
 // ============================================================================
 // CONVENIENCE FACTORIES FOR COMMON PATTERNS
 // ============================================================================
@@ -455,22 +561,22 @@ export function createEntityError<T extends string>(
   options?: ErrorFactoryOptions
 ): EntityError<T> {
   // Validate required fields
-  if (!entityType || !entityId) {
-    throw new Error("entityType and entityId are required for entity errors");
+  const [invalid] = checkEntityFields({ entityType, entityId });
+  if (invalid) {
+    throw new Error(invalid);
   }
+  registerDefaultErrorReviver(errorType, entityErrorReviver);
 
-  const baseError = createError({
-    type: errorType,
-    message,
-    cause: options?.cause,
-    context: options?.context,
-  });
-
-  return {
-    ...baseError,
-    entityType,
-    entityId,
-  };
+  return createErrorWithFields(
+    {
+      type: errorType,
+      message,
+      cause: options?.cause,
+      context: options?.context,
+      source: options?.source,
+    },
+    { entityType, entityId }
+  ) as EntityError<T>;
 }
 
 /**
@@ -489,24 +595,22 @@ export function createAmountError<T extends string>(
   options?: ErrorFactoryOptions
 ): AmountError<T> {
   // Validate required fields
-  if (typeof amount !== "number" || !currency) {
-    throw new Error(
-      "amount (number) and currency are required for amount errors"
-    );
+  const [invalid] = checkAmountFields({ amount, currency });
+  if (invalid) {
+    throw new Error(invalid);
   }
+  registerDefaultErrorReviver(errorType, amountErrorReviver);
 
-  const baseError = createError({
-    type: errorType,
-    message,
-    cause: options?.cause,
-    context: options?.context,
-  });
-
-  return {
-    ...baseError,
-    amount,
-    currency,
-  };
+  return createErrorWithFields(
+    {
+      type: errorType,
+      message,
+      cause: options?.cause,
+      context: options?.context,
+      source: options?.source,
+    },
+    { amount, currency }
+  ) as AmountError<T>;
 }
 
 /**
@@ -530,23 +634,26 @@ export function createExternalError<T extends string>(
   }
 ): ExternalError<T> {
   // Validate required fields
-  if (!provider) {
-    throw new Error("provider is required for external errors");
+  const [invalid] = checkExternalFields({ provider });
+  if (invalid) {
+    throw new Error(invalid);
   }
+  registerDefaultErrorReviver(errorType, externalErrorReviver);
 
-  const baseError = createError({
-    type: errorType,
-    message,
-    cause: options?.cause,
-    context: options?.context,
-  });
-
-  return {
-    ...baseError,
-    provider,
-    statusCode: options?.statusCode,
-    externalId: options?.externalId,
-  };
+  return createErrorWithFields(
+    {
+      type: errorType,
+      message,
+      cause: options?.cause,
+      context: options?.context,
+      source: options?.source,
+    },
+    {
+      provider,
+      statusCode: options?.statusCode,
+      externalId: options?.externalId,
+    }
+  ) as ExternalError<T>;
 }
 
 /**
@@ -567,32 +674,23 @@ export function createValidationError<T extends string>(
   code: string,
   options?: ErrorFactoryOptions
 ): ValidationError<T> {
-  // Validate required fields
-  if (!fields || typeof fields !== "object" || !code) {
-    throw new Error(
-      "fields (object) and code are required for validation errors"
-    );
+  // Validate required fields and field structure
+  const [invalid] = checkValidationFields({ fields, code });
+  if (invalid) {
+    throw new Error(invalid);
   }
+  registerDefaultErrorReviver(errorType, validationErrorReviver);
 
-  // Validate field structure
-  for (const [field, errors] of Object.entries(fields)) {
-    if (!Array.isArray(errors)) {
-      throw new Error(`Field '${field}' must have an array of error messages`);
-    }
-  }
-
-  const baseError = createError({
-    type: errorType,
-    message,
-    cause: options?.cause,
-    context: options?.context,
-  });
-
-  return {
-    ...baseError,
-    fields,
-    code,
-  };
+  return createErrorWithFields(
+    {
+      type: errorType,
+      message,
+      cause: options?.cause,
+      context: options?.context,
+      source: options?.source,
+    },
+    { fields, code }
+  ) as ValidationError<T>;
 }
 
 // ============================================================================
@@ -0,0 +1,420 @@
+/**
+ * Error history
+ *
+ * Keeps the most recent errors in a fixed-size ring buffer fed by
+ * `errorEvents`, so debug endpoints and devtools can inspect recent failures
+ * without wiring their own listeners. Sized by
+ * `performance.memory.maxErrorHistory`; with `useWeakRefs` the errors
+ * themselves are held weakly while their metadata stays queryable.
+ *
+ * Recording doesn't read lazily computed fields: an error's source and
+ * fingerprint are read when a query or snapshot first needs them. Errors
+ * held weakly have them read when recorded, so they outlive the error.
+ */
+
+import { TryError, serializeTryError } from "./types";
+import { getConfig, addConfigChangeListener } from "./config";
+import { errorEvents, ErrorEventListener } from "./events";
+import { getErrorFingerprint } from "./utils";
+
+/**
+ * Options for an error history
+ */
+export interface ErrorHistoryOptions {
+  /**
+   * Number of errors to keep
+   * @default 100
+   */
+  maxSize?: number;
+
+  /**
+   * Hold errors through weak references so they can be garbage collected
+   * @default false
+   */
+  useWeakRefs?: boolean;
+}
+
+/**
+ * Filter for querying the history
+ */
+export interface ErrorHistoryQuery {
+  /**
+   * Only errors of these types
+   */
+  type?: string | readonly string[];
+
+  /**
+   * Only errors at or after this timestamp (ms)
+   */
+  since?: number;
+
+  /**
+   * Only errors at or before this timestamp (ms)
+   */
+  until?: number;
+
+  /**
+   * Only errors with this fingerprint (see `getErrorFingerprint`)
+   */
+  fingerprint?: string;
+
+  /**
+   * Only errors whose source matches
+   */
+  source?: string | RegExp;
+
+  /**
+   * Maximum number of errors to return (most recent first)
+   */
+  limit?: number;
+}
+
+/**
+ * Error counts within a time window
+ */
+export interface ErrorHistoryCounts {
+  readonly total: number;
+  readonly byType: Readonly<Record<string, number>>;
+}
+
+/**
+ * Serializable export of the history
+ */
+export interface ErrorHistorySnapshot {
+  readonly capacity: number;
+  readonly size: number;
+  readonly takenAt: number;
+  readonly entries: ReadonlyArray<{
+    readonly type: string;
+    readonly message: string;
+    readonly source: string;
+    readonly timestamp: number;
+    readonly fingerprint: string;
+    /**
+     * The serialized error, unless it was garbage collected
+     */
+    readonly error?: Record<string, unknown>;
+  }>;
+}
+
+const DEFAULT_MAX_ERROR_HISTORY = 100;
+
+// WeakRef is ES2021; fall back to strong references where it is missing
+interface WeakRefLike<T extends object> {
+  deref(): T | undefined;
+}
+type WeakRefConstructor = new <T extends object>(target: T) => WeakRefLike<T>;
+const WeakRefImpl = (globalThis as { WeakRef?: WeakRefConstructor }).WeakRef;
+
+interface EntryMetadata {
+  readonly message: string;
+  readonly source: string;
+  readonly fingerprint: string;
+}
+
+interface HistoryEntry {
+  readonly type: string;
+  readonly timestamp: number;
+  readonly ref: TryError | WeakRefLike<TryError>;
+  // Read from the error on first use
+  metadata?: EntryMetadata;
+  // Set when the error's dedupe window closes
+  occurrences?: number;
+}
+
+function derefEntry(entry: HistoryEntry): TryError | undefined {
+  return WeakRefImpl && entry.ref instanceof WeakRefImpl
+    ? entry.ref.deref()
+    : (entry.ref as TryError);
+}
+
+function readMetadata(error: TryError): EntryMetadata {
+  return {
+    message: error.message,
+    source: error.source,
+    fingerprint: getErrorFingerprint(error),
+  };
+}
+
+function getMetadata(entry: HistoryEntry): EntryMetadata {
+  // Only strongly held entries are recorded without metadata
+  if (!entry.metadata) {
+    entry.metadata = readMetadata(entry.ref as TryError);
+  }
+  return entry.metadata;
+}
+
+function matchesQuery(entry: HistoryEntry, query: ErrorHistoryQuery): boolean {
+  if (query.type !== undefined) {
+    const types = typeof query.type === "string" ? [query.type] : query.type;
+    if (!types.includes(entry.type)) return false;
+  }
+  if (query.since !== undefined && entry.timestamp < query.since) return false;
+  if (query.until !== undefined && entry.timestamp > query.until) return false;
+  if (
+    query.fingerprint !== undefined &&
+    getMetadata(entry).fingerprint !== query.fingerprint
+  ) {
+    return false;
+  }
+  if (query.source !== undefined) {
+    const { source } = getMetadata(entry);
+    return typeof query.source === "string"
+      ? source.includes(query.source)
+      : query.source.test(source);
+  }
+  return true;
+}
+
+/**
+ * Ring buffer of recent errors
+ */
+export class ErrorHistory {
+  private buffer: Array<HistoryEntry | undefined>;
+  private start = 0;
+  private count = 0;
+  private useWeakRefs: boolean;
+
+  constructor(options: ErrorHistoryOptions = {}) {
+    this.buffer = new Array(
+      Math.max(1, options.maxSize ?? DEFAULT_MAX_ERROR_HISTORY)
+    );
+    this.useWeakRefs = options.useWeakRefs ?? false;
+  }
+
+  /**
+   * Number of errors currently held
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Maximum number of errors held
+   */
+  get capacity(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Add an error, evicting the oldest one when full
+   */
+  record(error: TryError, timestamp = Date.now()): void {
+    const weak = this.useWeakRefs && WeakRefImpl !== undefined;
+    const entry: HistoryEntry = {
+      type: error.type,
+      // Errors created with skipTimestamp fall back to the record time
+      timestamp: error.timestamp || timestamp,
+      ref: weak ? new WeakRefImpl!(error) : error,
+      metadata: weak ? readMetadata(error) : undefined,
+    };
+
+    const index = (this.start + this.count) % this.buffer.length;
+    this.buffer[index] = entry;
+    if (this.count < this.buffer.length) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.buffer.length;
+    }
+  }
+
+  /**
+   * Count repeats folded into a recorded error by `dedupeWindow`
+   *
+   * @param occurrences - Total occurrences, including the recorded one
+   */
+  recordOccurrences(error: TryError, occurrences: number): void {
+    for (const entry of this.entries(true)) {
+      if (derefEntry(entry) === error) {
+        entry.occurrences = occurrences;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Find recorded errors, most recent first
+   * Errors that were garbage collected are skipped
+   */
+  query(query: ErrorHistoryQuery = {}): TryError[] {
+    const results: TryError[] = [];
+    const limit = query.limit ?? Infinity;
+
+    for (const entry of this.entries(true)) {
+      if (results.length >= limit) break;
+      if (!matchesQuery(entry, query)) continue;
+      const error = derefEntry(entry);
+      if (error) results.push(error);
+    }
+
+    return results;
+  }
+
+  /**
+   * Count errors recorded in the last `windowMs` milliseconds
+   * Garbage collected errors are still counted, and deduplicated errors
+   * count every occurrence
+   */
+  getCounts(
+    windowMs: number,
+    query: ErrorHistoryQuery = {},
+    now = Date.now()
+  ): ErrorHistoryCounts {
+    const byType: Record<string, number> = {};
+    let total = 0;
+
+    for (const entry of this.entries(false)) {
+      if (entry.timestamp < now - windowMs || entry.timestamp > now) continue;
+      if (!matchesQuery(entry, query)) continue;
+      const occurrences = entry.occurrences ?? 1;
+      byType[entry.type] = (byType[entry.type] ?? 0) + occurrences;
+      total += occurrences;
+    }
+
+    return { total, byType };
+  }
+
+  /**
+   * Export the history as plain, serializable data (oldest first)
+   */
+  snapshot(): ErrorHistorySnapshot {
+    const entries = Array.from(this.entries(false), (entry) => {
+      const error = derefEntry(entry);
+      const { message, source, fingerprint } = getMetadata(entry);
+      return {
+        type: entry.type,
+        message,
+        source,
+        timestamp: entry.timestamp,
+        fingerprint,
+        ...(error && { error: serializeTryError(error) }),
+      };
+    });
+
+    return {
+      capacity: this.capacity,
+      size: this.count,
+      takenAt: Date.now(),
+      entries,
+    };
+  }
+
+  /**
+   * Change the capacity, keeping the most recent errors
+   */
+  resize(maxSize: number): void {
+    const capacity = Math.max(1, maxSize);
+    const kept = Array.from(this.entries(false)).slice(-capacity);
+    this.buffer = new Array(capacity);
+    kept.forEach((entry, index) => {
+      this.buffer[index] = entry;
+    });
+    this.start = 0;
+    this.count = kept.length;
+  }
+
+  /**
+   * Apply new options; weak references only affect errors recorded later
+   */
+  configure(options: ErrorHistoryOptions): void {
+    if (options.maxSize !== undefined && options.maxSize !== this.capacity) {
+      this.resize(options.maxSize);
+    }
+    if (options.useWeakRefs !== undefined) {
+      this.useWeakRefs = options.useWeakRefs;
+    }
+  }
+
+  /**
+   * Remove all recorded errors
+   */
+  clear(): void {
+    this.buffer = new Array(this.buffer.length);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  private *entries(newestFirst: boolean): Generator<HistoryEntry> {
+    for (let i = 0; i < this.count; i++) {
+      const offset = newestFirst ? this.count - 1 - i : i;
+      yield this.buffer[(this.start + offset) % this.buffer.length]!;
+    }
+  }
+}
+
+/**
+ * Global error history (created lazily)
+ */
+let globalErrorHistory: ErrorHistory | null = null;
+let unsubscribe: (() => void) | null = null;
+let listeningForConfig = false;
+
+function getMemoryOptions(): ErrorHistoryOptions {
+  const memory = getConfig().performance?.memory;
+  return {
+    maxSize: memory?.maxErrorHistory,
+    useWeakRefs: memory?.useWeakRefs,
+  };
+}
+
+/**
+ * Get the global error history, subscribing it to `errorEvents`
+ *
+ * The history starts on the first call, sized by the current (or default)
+ * `performance.memory` settings, and follows later changes to them.
+ *
+ * @example
+ * ```typescript
+ * configure({ performance: { memory: { maxErrorHistory: 200 } } });
+ *
+ * app.get("/debug/errors", (req, res) => {
+ *   const history = getErrorHistory();
+ *   res.json({
+ *     lastMinute: history.getCounts(60_000),
+ *     recent: history.query({ type: "ValidationError", limit: 20 }),
+ *     snapshot: history.snapshot(),
+ *   });
+ * });
+ * ```
+ */
+export function getErrorHistory(): ErrorHistory {
+  if (!globalErrorHistory) {
+    if (!listeningForConfig) {
+      listeningForConfig = true;
+      addConfigChangeListener(() => {
+        if (globalErrorHistory && getConfig().performance?.memory) {
+          globalErrorHistory.configure(getMemoryOptions());
+        }
+      });
+    }
+
+    const history = new ErrorHistory(getMemoryOptions());
+    const listener: ErrorEventListener = (event) => {
+      if (event.type === "error:created") {
+        history.record(event.error, event.timestamp);
+      } else if (event.type === "error:deduplicated") {
+        history.recordOccurrences(event.error, event.occurrences);
+      }
+    };
+    const unsubscribeCreated = errorEvents.on("error:created", listener);
+    const unsubscribeDeduplicated = errorEvents.on(
+      "error:deduplicated",
+      listener
+    );
+    unsubscribe = () => {
+      unsubscribeCreated();
+      unsubscribeDeduplicated();
+    };
+    globalErrorHistory = history;
+  }
+  return globalErrorHistory;
+}
+
+/**
+ * Stop and drop the global error history
+ */
+export function resetErrorHistory(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  globalErrorHistory = null;
+}
@@ -9,7 +9,7 @@ export const FEATURES = /*#__PURE__*/ Object.freeze({
   serialization: true,
   errorComparison: true,
   errorCloning: true,
-  asyncStackTraces: false, // Not implemented yet
+  asyncStackTraces: true, // Now implemented (opt-in via configure)
   objectPooling: true, // Now implemented
   lazyEvaluation: true, // Now implemented
   eventSystem: true, // Now implemented
@@ -26,24 +26,44 @@ export type {
   TryFailure,
   UnwrapTry,
   UnwrapTryError,
+  AggregateTryError,
+  ErrorReviver,
+  DeserializationError,
+  DeserializeOptions,
+  SafeDeserializeOptions,
 } from "./types";
 
 // Core type guards and utilities
 export {
   isTryError,
   isTrySuccess,
+  isAggregateTryError,
   matchTryResult,
   unwrapTryResult,
   serializeTryError,
   deserializeTryError,
   areTryErrorsEqual,
   cloneTryError,
+  TRY_ERROR_SCHEMA_VERSION,
+  registerErrorReviver,
+  unregisterErrorReviver,
+  isDeserializationError,
 } from "./types";
 
 // Error creation utilities
-export type { CreateErrorOptions } from "./errors";
+export type {
+  CreateErrorOptions,
+  CreateAggregateErrorOptions,
+} from "./errors";
 
-export { createError, wrapError, fromThrown } from "./errors";
+export {
+  createError,
+  wrapError,
+  createAggregateError,
+  fromThrown,
+  toNativeError,
+  NativeTryError,
+} from "./errors";
 
 // Configuration utilities (tree-shakeable)
 export type { TryErrorConfig, PerformanceConfig } from "./config";
@@ -61,8 +81,30 @@ export {
 // Setup utilities are available as separate imports to keep main bundle lightweight:
 // import { setupNode, setupReact, setupNextJs, autoSetup } from 'try-error/setup';
 
+// Typed error classification
+export type {
+  ErrorMapper,
+  ErrorMapperTable,
+  MappedError,
+  ThrownConstructor,
+  ThrownClassification,
+  ThrownClassifier,
+} from "./classify";
+
+export {
+  classifyError,
+  classifyThrown,
+  registerThrownClassifier,
+  unregisterThrownClassifier,
+} from "./classify";
+
 // Synchronous error handling
-export type { TrySyncOptions } from "./sync";
+export type {
+  TrySyncOptions,
+  MappedTrySyncOptions,
+  TryGenUnwrap,
+  TryAllOptions,
+} from "./sync";
 
 export {
   trySync,
@@ -70,9 +112,12 @@ export {
   tryCall,
   tryMap,
   tryChain,
+  tryGen,
   unwrap,
   unwrapOr,
   unwrapOrElse,
+  throwIfError,
+  orThrow,
   isOk,
   isErr,
   tryAll,
@@ -81,10 +126,16 @@ export {
   CircuitBreaker,
   createCircuitBreaker,
   withFallback,
+  recover,
 } from "./sync";
 
 // Asynchronous error handling
-export type { TryAsyncOptions, ProgressTracker } from "./async";
+export type {
+  TryAsyncOptions,
+  MappedTryAsyncOptions,
+  ProgressTracker,
+  TryGenAsyncUnwrap,
+} from "./async";
 
 export {
   tryAsync,
@@ -92,10 +143,12 @@ export {
   tryAwait,
   tryMapAsync,
   tryChainAsync,
+  tryGenAsync,
   tryAllAsync,
   tryAnyAsync,
   tryAnySequential,
   withTimeout,
+  recoverAsync,
   retry,
   withProgress,
   RateLimiter,
@@ -104,6 +157,93 @@ export {
   createAsyncQueue,
 } from "./async";
 
+// Fluent result wrappers
+export type { ResultMatchHandlers } from "./result";
+
+export { Result, AsyncResult } from "./result";
+
+// Pattern matching
+export type {
+  PatternValue,
+  ErrorPattern,
+  PatternShape,
+  NarrowByPattern,
+  ExcludeByPattern,
+  NonExhaustiveMatch,
+} from "./match";
+
+export { match, ResultMatcher } from "./match";
+
+// Cross-thread transfer
+export type { TransferableTryError } from "./worker";
+
+export { toTransferable, fromTransferable, tryInWorker } from "./worker";
+
+// Message templates and locales
+export type { LocaleMessages } from "./messages";
+
+export {
+  formatMessage,
+  registerLocale,
+  unregisterLocale,
+  getLocaleMessage,
+} from "./messages";
+
+// Redaction
+export type { RedactConfig, RedactDetector } from "./redact";
+
+export { redactError } from "./redact";
+
+// Context capture limits
+export type { ContextCaptureOptions, CapturedContext } from "./capture";
+
+export { captureContext } from "./capture";
+
+// Ambient error context
+export { withErrorContext, getAmbientErrorContext } from "./context";
+
+// Source map resolution
+export type {
+  SourcePosition,
+  SourceMapResolver,
+  SourceMapOptions,
+} from "./sourcemap";
+
+export {
+  resolveSourceMaps,
+  createSourceMapResolver,
+  clearSourceMapCache,
+} from "./sourcemap";
+
+// Structured stack frames
+export type {
+  StackFrame,
+  StackFilterOptions,
+  StackFormatter,
+} from "./stack";
+
+export {
+  parseStack,
+  parseStackFrame,
+  filterStackFrames,
+  formatStackFrame,
+  createStackFormatter,
+} from "./stack";
+
+// Error catalogs
+export type {
+  ErrorSeverity,
+  ErrorDefinition,
+  ErrorCatalogDefinitions,
+  TemplateParams,
+  CatalogError,
+  CatalogFactoryArgs,
+  ErrorCatalog,
+  CatalogErrorUnion,
+} from "./catalog";
+
+export { defineErrorCatalog, getErrorDefinition } from "./catalog";
+
 // Stage 2: Domain-specific error factories and base types
 export type {
   ErrorFactoryOptions,
@@ -130,10 +270,21 @@ export {
   externalError,
   entityError,
   fieldValidationError,
+  entityErrorReviver,
+  amountErrorReviver,
+  externalErrorReviver,
+  validationErrorReviver,
 } from "./factories";
 
 // Enhanced utilities for common patterns
-export type { ErrorHandlingOptions } from "./utils";
+export type {
+  ErrorHandlingOptions,
+  GetErrorMessageOptions,
+  ErrorTypeHandlers,
+  UnhandledErrors,
+  HandledResult,
+  FormatErrorOptions,
+} from "./utils";
 
 export {
   createEnhancedError,
@@ -157,6 +308,9 @@ export {
   ErrorSampling,
   correlateErrors,
   getErrorFingerprint,
+  getCauseChain,
+  findCause,
+  getRootCause,
 } from "./utils";
 
 // Middleware system
@@ -198,6 +352,38 @@ export {
   getErrorPoolStats,
 } from "./pool";
 
+// Error history
+export type {
+  ErrorHistoryOptions,
+  ErrorHistoryQuery,
+  ErrorHistoryCounts,
+  ErrorHistorySnapshot,
+} from "./history";
+
+export { ErrorHistory, getErrorHistory, resetErrorHistory } from "./history";
+
+// Error metrics
+export type {
+  ErrorMetricsOptions,
+  PrometheusFormatOptions,
+  CounterSample,
+  HistogramSample,
+  ErrorMetricsSnapshot,
+} from "./metrics";
+
+export {
+  ErrorMetrics,
+  getErrorMetrics,
+  resetErrorMetrics,
+  PROMETHEUS_CONTENT_TYPE,
+  OPENMETRICS_CONTENT_TYPE,
+} from "./metrics";
+
+// Error storm protection
+export type { DedupeWindowOptions } from "./dedupe";
+
+export { flushErrorDedupe } from "./dedupe";
+
 // Plugin system
 export type {
   PluginMetadata,
@@ -228,6 +414,7 @@ export {
   emitErrorWrapped,
   emitErrorRetry,
   emitErrorRecovered,
+  emitErrorDeduplicated,
 } from "./events";
 
 // Performance optimizations
@@ -14,8 +14,9 @@ const LAZY_STATE = Symbol("lazy-state");
 
 /**
  * Lazy property descriptor that computes value on first access
+ * @internal
  */
-function createLazyProperty<T>(
+export function createLazyProperty<T>(
   target: any,
   propertyKey: string,
   compute: () => T
@@ -90,12 +91,21 @@ export function createLazyError<T extends string = string>(options: {
 export function makeLazy<E extends TryError>(
   error: E,
   lazyProps: {
+    message?: () => string;
     source?: () => string;
     stack?: () => string | undefined;
     context?: () => Record<string, unknown> | undefined;
   }
 ): E {
-  const lazyError = { ...error };
+  // Copy descriptors so lazy properties of the error stay lazy
+  const lazyError = Object.defineProperties(
+    {},
+    Object.getOwnPropertyDescriptors(error)
+  ) as E;
+
+  if (lazyProps.message) {
+    createLazyProperty(lazyError, "message", lazyProps.message);
+  }
 
   if (lazyProps.source) {
     createLazyProperty(lazyError, "source", lazyProps.source);
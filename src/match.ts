@@ -0,0 +1,219 @@
+/**
+ * Pattern matching over TryResult values and TryError unions
+ *
+ * `match()` is a small builder that narrows errors by `type` and by nested
+ * patterns (e.g. `context.status`), and can verify at compile time that
+ * every variant of an error union has been handled.
+ */
+
+import { TryError, isTryError } from "./types";
+
+/**
+ * A pattern for a single value: the value itself, a predicate,
+ * or (for objects) a partial pattern of its properties
+ */
+export type PatternValue<V> =
+  | ((value: V) => boolean)
+  | (V extends readonly unknown[]
+      ? V
+      : V extends Record<string, unknown>
+      ? { readonly [K in keyof V]?: PatternValue<V[K]> }
+      : V);
+
+/**
+ * A partial pattern matched against a TryError
+ * Distributes over unions so `type` accepts any variant's literal
+ */
+export type ErrorPattern<E extends TryError> = E extends TryError
+  ? { readonly [K in keyof E]?: PatternValue<E[K]> }
+  : never;
+
+/**
+ * The value shape implied by a pattern
+ * Literal and nested object patterns refine their properties; predicates
+ * and arrays leave the property type unchanged
+ */
+export type PatternShape<P> = {
+  readonly [K in keyof P as P[K] extends (...args: never[]) => unknown
+    ? never
+    : K]: P[K] extends readonly unknown[]
+    ? unknown
+    : P[K] extends object
+    ? PatternShape<P[K]>
+    : P[K];
+};
+
+/**
+ * Narrow an error union to the variants selected by a pattern's `type`,
+ * refined by the pattern's nested shape (e.g. `context.status`)
+ */
+export type NarrowByPattern<E extends TryError, P> = (P extends {
+  readonly type: infer T extends string;
+}
+  ? [Extract<E, { type: T }>] extends [never]
+    ? E & { readonly type: T }
+    : Extract<E, { type: T }>
+  : E) &
+  PatternShape<P>;
+
+/**
+ * Remove the variants fully handled by a pattern
+ * Only `type`-only patterns exhaust a variant; nested patterns are partial
+ */
+export type ExcludeByPattern<R, P> = P extends {
+  readonly type: infer T extends string;
+}
+  ? [Exclude<keyof P, "type">] extends [never]
+    ? Exclude<R, { type: T }>
+    : R
+  : R;
+
+/**
+ * Marker type reported when `.exhaustive()` is called with unhandled cases
+ */
+export interface NonExhaustiveMatch<Unhandled> {
+  readonly __unhandled: Unhandled;
+}
+
+/**
+ * Check a value against a pattern at runtime
+ */
+function matchesPattern(value: unknown, pattern: unknown): boolean {
+  if (typeof pattern === "function") {
+    return Boolean((pattern as (value: unknown) => boolean)(value));
+  }
+
+  if (typeof pattern === "object" && pattern !== null) {
+    if (typeof value !== "object" || value === null) {
+      return false;
+    }
+    for (const key of Object.keys(pattern)) {
+      if (
+        !matchesPattern(
+          (value as Record<string, unknown>)[key],
+          (pattern as Record<string, unknown>)[key]
+        )
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  return Object.is(value, pattern);
+}
+
+/**
+ * Fluent matcher returned by `match()`
+ *
+ * `Remaining` tracks the cases not yet handled so `.exhaustive()` can be
+ * checked at compile time.
+ */
+export class ResultMatcher<Input, Remaining, Output = never> {
+  private matched = false;
+  private output: unknown;
+
+  constructor(private readonly input: Input) {}
+
+  /**
+   * Handle the success value
+   */
+  ok<R>(
+    handler: (value: Exclude<Remaining, TryError>) => R
+  ): ResultMatcher<Input, Extract<Remaining, TryError>, Output | R> {
+    if (!this.matched && !isTryError(this.input)) {
+      this.matched = true;
+      this.output = handler(this.input as Exclude<Remaining, TryError>);
+    }
+    return this as unknown as ResultMatcher<
+      Input,
+      Extract<Remaining, TryError>,
+      Output | R
+    >;
+  }
+
+  /**
+   * Handle errors matching a pattern
+   *
+   * @example
+   * ```typescript
+   * match(result)
+   *   .with({ type: "NotFound" }, (e) => 404)
+   *   .with({ type: "Http", context: { status: 503 } }, (e) => retryLater(e))
+   * ```
+   */
+  with<const P extends ErrorPattern<Extract<Remaining, TryError>>, R>(
+    pattern: P,
+    handler: (error: NarrowByPattern<Extract<Remaining, TryError>, P>) => R
+  ): ResultMatcher<Input, ExcludeByPattern<Remaining, P>, Output | R> {
+    if (
+      !this.matched &&
+      isTryError(this.input) &&
+      matchesPattern(this.input, pattern)
+    ) {
+      this.matched = true;
+      this.output = handler(
+        this.input as unknown as NarrowByPattern<
+          Extract<Remaining, TryError>,
+          P
+        >
+      );
+    }
+    return this as unknown as ResultMatcher<
+      Input,
+      ExcludeByPattern<Remaining, P>,
+      Output | R
+    >;
+  }
+
+  /**
+   * Handle every case not matched so far and return the result
+   */
+  otherwise<R>(handler: (value: Remaining) => R): Output | R {
+    if (this.matched) {
+      return this.output as Output;
+    }
+    return handler(this.input as unknown as Remaining);
+  }
+
+  /**
+   * Return the result, failing to type-check if any case is unhandled
+   *
+   * @throws Error if no handler matched at runtime (e.g. an unexpected error type)
+   */
+  exhaustive(
+    ...unhandled: [Remaining] extends [never]
+      ? []
+      : [NonExhaustiveMatch<Remaining>]
+  ): Output {
+    if (this.matched) {
+      return this.output as Output;
+    }
+    const description = isTryError(this.input)
+      ? `error of type "${this.input.type}"`
+      : "success value";
+    throw new Error(`Non-exhaustive match: unhandled ${description}`);
+  }
+}
+
+/**
+ * Start a pattern match over a TryResult or TryError
+ *
+ * @param input - The result or error to match
+ * @returns A matcher builder
+ *
+ * @example
+ * ```typescript
+ * type ApiError = TryError<"NotFound"> | TryError<"Http">;
+ *
+ * const status = match(result as TryResult<User, ApiError>)
+ *   .ok((user) => 200)
+ *   .with({ type: "NotFound" }, () => 404)
+ *   .with({ type: "Http", context: { status: 503 } }, () => 503)
+ *   .with({ type: "Http" }, () => 500)
+ *   .exhaustive();
+ * ```
+ */
+export function match<Input>(input: Input): ResultMatcher<Input, Input> {
+  return new ResultMatcher<Input, Input>(input);
+}
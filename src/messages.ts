@@ -0,0 +1,115 @@
+/**
+ * Message templates and locale catalogs
+ *
+ * Templates use `{name}` placeholders filled from an error's context.
+ * Locale catalogs map error types to translated templates so user-facing
+ * messages can be resolved per locale without changing how errors are created.
+ */
+
+/**
+ * Message templates keyed by error type
+ */
+export type LocaleMessages = Readonly<Record<string, string>>;
+
+// Registered locale catalogs, keyed by lowercase locale tag
+const localeRegistry = new Map<string, Record<string, string>>();
+
+/**
+ * Resolve a (possibly nested) placeholder path like "user.id"
+ */
+function resolvePath(
+  params: Record<string, unknown>,
+  path: string
+): { found: boolean; value?: unknown } {
+  let current: unknown = params;
+  for (const key of path.split(".")) {
+    if (
+      typeof current !== "object" ||
+      current === null ||
+      !Object.prototype.hasOwnProperty.call(current, key)
+    ) {
+      return { found: false };
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * Fill `{name}` placeholders in a message template
+ * Unknown placeholders are left untouched so missing data stays visible
+ *
+ * @param template - Template such as "Order {orderId} exceeds {limit}"
+ * @param params - Values for the placeholders (dotted paths are supported)
+ * @returns The formatted message
+ *
+ * @example
+ * ```typescript
+ * formatMessage("Order {orderId} exceeds {limit}", { orderId: 7, limit: 100 });
+ * // "Order 7 exceeds 100"
+ * ```
+ */
+export function formatMessage(
+  template: string,
+  params: Record<string, unknown> = {}
+): string {
+  return template.replace(/\{([\w.]+)\}/g, (placeholder, path: string) => {
+    const { found, value } = resolvePath(params, path);
+    return found ? String(value) : placeholder;
+  });
+}
+
+/**
+ * Register translated message templates for a locale
+ * Registering the same locale again merges the messages
+ *
+ * @param locale - BCP 47 locale tag (e.g. "de" or "de-CH")
+ * @param messages - Templates keyed by error type
+ *
+ * @example
+ * ```typescript
+ * registerLocale("de", {
+ *   OrderLimitExceeded: "Bestellung {orderId} überschreitet {limit}",
+ * });
+ * getErrorMessage(error, { locale: "de-CH" }); // falls back to "de"
+ * ```
+ */
+export function registerLocale(
+  locale: string,
+  messages: LocaleMessages
+): void {
+  const key = locale.toLowerCase();
+  localeRegistry.set(key, { ...localeRegistry.get(key), ...messages });
+}
+
+/**
+ * Remove a registered locale catalog
+ *
+ * @returns True if the locale was registered
+ */
+export function unregisterLocale(locale: string): boolean {
+  return localeRegistry.delete(locale.toLowerCase());
+}
+
+/**
+ * Find the template for an error type in a locale
+ * Falls back from regional locales to their language ("de-CH" → "de")
+ *
+ * @param type - The error type
+ * @param locale - The requested locale
+ * @returns The template, or undefined if no catalog has a translation
+ */
+export function getLocaleMessage(
+  type: string,
+  locale: string
+): string | undefined {
+  const parts = locale.toLowerCase().split("-");
+  while (parts.length > 0) {
+    const messages = localeRegistry.get(parts.join("-"));
+    if (messages && Object.prototype.hasOwnProperty.call(messages, type)) {
+      return messages[type];
+    }
+    parts.pop();
+  }
+  return undefined;
+}
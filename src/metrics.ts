@@ -0,0 +1,472 @@
+/**
+ * Error metrics
+ *
+ * Counts created errors by type, source and selected context labels, counts
+ * retries and recoveries, and keeps creation-time histograms, all fed by
+ * `errorEvents`. Repeats folded by `dedupeWindow` are counted when their
+ * window closes. The registry renders the Prometheus / OpenMetrics text
+ * format and JSON, so services can serve a `/metrics` endpoint without a
+ * separate metrics library.
+ *
+ * @example
+ * ```typescript
+ * const metrics = getErrorMetrics({ labels: ["tenant"] });
+ *
+ * app.get("/metrics", (req, res) => {
+ *   res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.toPrometheus());
+ * });
+ * ```
+ */
+
+import { TryError } from "./types";
+import { errorEvents, ErrorEventListener } from "./events";
+
+/**
+ * Options for an error metrics registry
+ */
+export interface ErrorMetricsOptions {
+  /**
+   * Metric name prefix, matching `[a-zA-Z_:][a-zA-Z0-9_:]*`
+   * @default "try_error"
+   */
+  prefix?: string;
+
+  /**
+   * Context keys added as labels to the error counter. They must be valid
+   * Prometheus label names (`[a-zA-Z_][a-zA-Z0-9_]*`, not starting with
+   * `__`) other than `type` and `source`.
+   * @default []
+   */
+  labels?: readonly string[];
+
+  /**
+   * Label errors by `source`. Sources are per call site, so every call site
+   * becomes its own series; enable this only with few call sites.
+   * @default false
+   */
+  includeSource?: boolean;
+
+  /**
+   * Upper bounds (seconds) of the creation-time histogram buckets
+   * @default [0.00001, 0.00005, 0.0001, 0.0005, 0.001, 0.005, 0.01]
+   */
+  buckets?: readonly number[];
+
+  /**
+   * Maximum label combinations per metric; further combinations are counted
+   * under labels with the value "other"
+   * @default 1000
+   */
+  maxSeries?: number;
+}
+
+/**
+ * Options for the text exposition format
+ */
+export interface PrometheusFormatOptions {
+  /**
+   * Render OpenMetrics 1.0 (counter families without `_total`, `# EOF`)
+   * instead of the Prometheus 0.0.4 text format
+   * @default false
+   */
+  openMetrics?: boolean;
+}
+
+/**
+ * A counter series in the JSON export
+ */
+export interface CounterSample {
+  labels: Record<string, string>;
+  value: number;
+}
+
+/**
+ * A histogram series in the JSON export
+ */
+export interface HistogramSample {
+  labels: Record<string, string>;
+  // Cumulative counts per upper bound, ending with +Inf
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * JSON export of a registry
+ */
+export interface ErrorMetricsSnapshot {
+  errors: CounterSample[];
+  retries: CounterSample[];
+  recoveries: CounterSample[];
+  creationSeconds: HistogramSample[];
+}
+
+/**
+ * Content type of `toPrometheus()`
+ */
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Content type of `toPrometheus({ openMetrics: true })`
+ */
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+const DEFAULT_BUCKETS = [0.00001, 0.00005, 0.0001, 0.0005, 0.001, 0.005, 0.01];
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const BUILT_IN_LABELS = ["type", "source", "le"];
+const DEFAULT_MAX_SERIES = 1000;
+const OVERFLOW_LABEL_VALUE = "other";
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(
+  names: readonly string[],
+  values: readonly string[],
+  extra = ""
+): string {
+  const pairs = names.map(
+    (name, i) => `${name}="${escapeLabelValue(values[i])}"`
+  );
+  if (extra) {
+    pairs.push(extra);
+  }
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Series keyed by their label values, capped at `maxSeries`
+ */
+class SeriesMap<V> {
+  private series = new Map<string, { values: string[]; data: V }>();
+
+  constructor(
+    private readonly labelCount: number,
+    private readonly maxSeries: number,
+    private readonly create: () => V
+  ) {}
+
+  get(values: string[]): V {
+    let key = JSON.stringify(values);
+    let entry = this.series.get(key);
+    if (!entry) {
+      if (this.series.size >= this.maxSeries) {
+        values = new Array(this.labelCount).fill(OVERFLOW_LABEL_VALUE);
+        key = JSON.stringify(values);
+        entry = this.series.get(key);
+      }
+      if (!entry) {
+        entry = { values, data: this.create() };
+        this.series.set(key, entry);
+      }
+    }
+    return entry.data;
+  }
+
+  entries(): Array<{ values: string[]; data: V }> {
+    return [...this.series.values()];
+  }
+
+  clear(): void {
+    this.series.clear();
+  }
+}
+
+interface Histogram {
+  // Non-cumulative counts per bucket; the last one is +Inf
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Registry of error metrics
+ *
+ * Use `getErrorMetrics()` for the global registry fed by `errorEvents`, or
+ * create one and call `start()` / the `record*` methods directly.
+ */
+export class ErrorMetrics {
+  private readonly prefix: string;
+  private readonly contextLabels: readonly string[];
+  private readonly errorLabelNames: readonly string[];
+  private readonly includeSource: boolean;
+  private readonly buckets: readonly number[];
+
+  private readonly errors: SeriesMap<{ value: number }>;
+  private readonly retries: SeriesMap<{ value: number }>;
+  private readonly recoveries: SeriesMap<{ value: number }>;
+  private readonly creationSeconds: SeriesMap<Histogram>;
+
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(options: ErrorMetricsOptions = {}) {
+    this.prefix = options.prefix ?? "try_error";
+    this.contextLabels = options.labels ?? [];
+    this.includeSource = options.includeSource ?? false;
+
+    // Invalid names would break the whole exposition for scrapers
+    if (!METRIC_NAME.test(this.prefix)) {
+      throw new Error(`Invalid metric name prefix: ${this.prefix}`);
+    }
+    for (const label of this.contextLabels) {
+      if (
+        !LABEL_NAME.test(label) ||
+        label.startsWith("__") ||
+        BUILT_IN_LABELS.includes(label)
+      ) {
+        throw new Error(`Invalid metric label name: ${label}`);
+      }
+    }
+
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+    this.errorLabelNames = [
+      "type",
+      ...(this.includeSource ? ["source"] : []),
+      ...this.contextLabels,
+    ];
+
+    const maxSeries = options.maxSeries ?? DEFAULT_MAX_SERIES;
+    const counter = () => ({ value: 0 });
+    this.errors = new SeriesMap(
+      this.errorLabelNames.length,
+      maxSeries,
+      counter
+    );
+    this.retries = new SeriesMap(1, maxSeries, counter);
+    this.recoveries = new SeriesMap(1, maxSeries, counter);
+    this.creationSeconds = new SeriesMap(1, maxSeries, () => ({
+      counts: new Array(this.buckets.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    }));
+  }
+
+  /**
+   * Subscribe to `errorEvents`
+   */
+  start(): this {
+    if (this.unsubscribers.length > 0) {
+      return this;
+    }
+
+    const listener: ErrorEventListener = (event) => {
+      switch (event.type) {
+        case "error:created":
+          this.recordError(event.error);
+          if (event.duration !== undefined) {
+            this.recordCreationTime(event.error, event.duration);
+          }
+          break;
+        case "error:retry":
+          this.recordRetry(event.error);
+          break;
+        case "error:recovered":
+          this.recordRecovery(event.error);
+          break;
+        case "error:deduplicated":
+          // The first occurrence was counted when it was created
+          this.recordError(event.error, event.occurrences - 1);
+          break;
+      }
+    };
+    this.unsubscribers = [
+      errorEvents.on("error:created", listener),
+      errorEvents.on("error:retry", listener),
+      errorEvents.on("error:recovered", listener),
+      errorEvents.on("error:deduplicated", listener),
+    ];
+    return this;
+  }
+
+  /**
+   * Unsubscribe from `errorEvents`; recorded values are kept
+   */
+  stop(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Count a created error
+   *
+   * @param count - How many times it occurred
+   */
+  recordError(error: TryError, count = 1): void {
+    const values = [
+      error.type,
+      ...(this.includeSource ? [error.source] : []),
+      ...this.contextLabels.map((label) => {
+        const value = error.context?.[label];
+        return value === undefined || value === null ? "" : String(value);
+      }),
+    ];
+    this.errors.get(values).value += count;
+  }
+
+  /**
+   * Count a retried error
+   */
+  recordRetry(error: TryError): void {
+    this.retries.get([error.type]).value++;
+  }
+
+  /**
+   * Count an error that was recovered from
+   */
+  recordRecovery(error: TryError): void {
+    this.recoveries.get([error.type]).value++;
+  }
+
+  /**
+   * Record how long creating an error took
+   *
+   * @param durationMs - Creation time in milliseconds
+   */
+  recordCreationTime(error: TryError, durationMs: number): void {
+    const seconds = durationMs / 1000;
+    const histogram = this.creationSeconds.get([error.type]);
+    let bucket = this.buckets.findIndex((bound) => seconds <= bound);
+    if (bucket === -1) {
+      bucket = this.buckets.length;
+    }
+    histogram.counts[bucket]++;
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /**
+   * Clear all recorded values
+   */
+  reset(): void {
+    this.errors.clear();
+    this.retries.clear();
+    this.recoveries.clear();
+    this.creationSeconds.clear();
+  }
+
+  /**
+   * Export as JSON-serializable data
+   */
+  toJSON(): ErrorMetricsSnapshot {
+    const counterSamples = (
+      series: SeriesMap<{ value: number }>,
+      names: readonly string[]
+    ): CounterSample[] =>
+      series.entries().map(({ values, data }) => ({
+        labels: Object.fromEntries(names.map((name, i) => [name, values[i]])),
+        value: data.value,
+      }));
+
+    return {
+      errors: counterSamples(this.errors, this.errorLabelNames),
+      retries: counterSamples(this.retries, ["type"]),
+      recoveries: counterSamples(this.recoveries, ["type"]),
+      creationSeconds: this.creationSeconds
+        .entries()
+        .map(({ values, data }) => {
+          let cumulative = 0;
+          return {
+            labels: { type: values[0] },
+            buckets: [...this.buckets, Infinity].map((le, i) => {
+              cumulative += data.counts[i];
+              return { le, count: cumulative };
+            }),
+            sum: data.sum,
+            count: data.count,
+          };
+        }),
+    };
+  }
+
+  /**
+   * Render the Prometheus text exposition format
+   *
+   * @param options - Render OpenMetrics instead
+   */
+  toPrometheus(options: PrometheusFormatOptions = {}): string {
+    const openMetrics = options.openMetrics ?? false;
+    const lines: string[] = [];
+
+    const counter = (
+      name: string,
+      help: string,
+      series: SeriesMap<{ value: number }>,
+      names: readonly string[]
+    ) => {
+      const family = `${this.prefix}_${name}`;
+      const header = openMetrics ? family : `${family}_total`;
+      lines.push(`# HELP ${header} ${help}`, `# TYPE ${header} counter`);
+      for (const { values, data } of series.entries()) {
+        const labels = formatLabels(names, values);
+        lines.push(`${family}_total${labels} ${data.value}`);
+      }
+    };
+
+    counter("errors", "Errors created", this.errors, this.errorLabelNames);
+    counter("retries", "Error retries", this.retries, ["type"]);
+    counter("recoveries", "Errors recovered from", this.recoveries, ["type"]);
+
+    const histogram = `${this.prefix}_creation_seconds`;
+    lines.push(
+      `# HELP ${histogram} Time spent creating errors`,
+      `# TYPE ${histogram} histogram`
+    );
+    for (const sample of this.toJSON().creationSeconds) {
+      const values = [sample.labels.type];
+      for (const bucket of sample.buckets) {
+        const le = `le="${formatNumber(bucket.le)}"`;
+        const labels = formatLabels(["type"], values, le);
+        lines.push(`${histogram}_bucket${labels} ${bucket.count}`);
+      }
+      lines.push(
+        `${histogram}_sum${formatLabels(["type"], values)} ${sample.sum}`,
+        `${histogram}_count${formatLabels(["type"], values)} ${sample.count}`
+      );
+    }
+
+    if (openMetrics) {
+      lines.push("# EOF");
+    }
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+let globalErrorMetrics: ErrorMetrics | null = null;
+
+/**
+ * Get the global error metrics registry, subscribed to `errorEvents`
+ *
+ * @param options - Used when the registry is first created; call
+ * `resetErrorMetrics()` to change them
+ */
+export function getErrorMetrics(options?: ErrorMetricsOptions): ErrorMetrics {
+  if (!globalErrorMetrics) {
+    globalErrorMetrics = new ErrorMetrics(options).start();
+  }
+  return globalErrorMetrics;
+}
+
+/**
+ * Stop and drop the global error metrics registry
+ */
+export function resetErrorMetrics(): void {
+  globalErrorMetrics?.stop();
+  globalErrorMetrics = null;
+}
@@ -20,6 +20,7 @@ interface MutableTryError<T extends string = string> {
   stack?: string;
   context?: Record<string, unknown>;
   cause?: unknown;
+  contextTruncated?: boolean;
 }
 
 /**
@@ -93,6 +94,7 @@ export class ErrorPool {
         this.stack = undefined;
         this.context = undefined;
         this.cause = undefined;
+        this.contextTruncated = undefined;
       },
     };
 
@@ -0,0 +1,372 @@
+/**
+ * Context redaction and PII scrubbing
+ *
+ * A redaction policy removes sensitive data from errors before it leaves the
+ * process: context values and domain fields matched by key path or key
+ * name, values that look like emails, card numbers or JWTs, and any
+ * occurrence of those values in messages, stacks and cause chains.
+ */
+
+import { TryError, isTryError } from "./types";
+
+/**
+ * Built-in detectors for sensitive values inside strings
+ */
+export type RedactDetector = "email" | "cardNumber" | "jwt";
+
+/**
+ * Redaction policy, set through `configure({ redact })`
+ */
+export interface RedactConfig {
+  /**
+   * Context key paths to redact (e.g. "user.password"); `*` matches any key.
+   * Single-segment paths also match domain fields (e.g. "entityId").
+   */
+  paths?: readonly string[];
+
+  /**
+   * Redact context values and domain fields whose key name matches
+   * (e.g. /token|secret/i)
+   */
+  keys?: readonly RegExp[];
+
+  /**
+   * Scrub matching substrings from every string value, message and stack
+   */
+  detectors?: readonly (RedactDetector | RegExp)[];
+
+  /**
+   * Custom replacement, called for every context value not redacted by the
+   * rules above; return the value to keep it
+   */
+  replacer?: (value: unknown, key: string, path: readonly string[]) => unknown;
+
+  /**
+   * Replacement for redacted values
+   * @default "[REDACTED]"
+   */
+  censor?: string;
+
+  /**
+   * When the policy is applied: to every error as it is created, or only
+   * when errors are serialized, logged or reported
+   * @default "serialization"
+   */
+  mode?: "creation" | "serialization";
+}
+
+const DEFAULT_CENSOR = "[REDACTED]";
+
+const DETECTOR_PATTERNS: Readonly<Record<RedactDetector, RegExp>> = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  cardNumber: /\b\d(?:[ -]?\d){12,18}\b/g,
+  jwt: /\beyJ[\w-]*\.eyJ[\w-]*\.[\w-]*/g,
+};
+
+// Strings shorter than this are not scrubbed from messages and stacks
+const MIN_SCRUB_LENGTH = 4;
+
+/**
+ * Luhn checksum, so only plausible card numbers are redacted
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// TryError fields redacted individually; other own fields are domain fields
+const TRY_ERROR_FIELDS = new Set([
+  "type",
+  "message",
+  "source",
+  "timestamp",
+  "stack",
+  "context",
+  "cause",
+  "errors",
+]);
+
+interface RedactState {
+  readonly policy: RedactConfig;
+  readonly censor: string;
+  readonly paths: readonly (readonly string[])[];
+  // Key patterns without the g/y flags, which make `test` stateful
+  readonly keys: readonly RegExp[];
+  // Original strings that were redacted, scrubbed from messages and stacks
+  readonly redacted: Set<string>;
+  readonly seen: WeakMap<object, unknown>;
+}
+
+function createState(policy: RedactConfig): RedactState {
+  return {
+    policy,
+    censor: policy.censor ?? DEFAULT_CENSOR,
+    paths: (policy.paths ?? []).map((path) => path.split(".")),
+    keys: (policy.keys ?? []).map((pattern) =>
+      pattern.global || pattern.sticky
+        ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""))
+        : pattern
+    ),
+    redacted: new Set(),
+    seen: new WeakMap(),
+  };
+}
+
+function matchesPath(
+  patterns: readonly (readonly string[])[],
+  path: readonly string[]
+): boolean {
+  return patterns.some(
+    (pattern) =>
+      pattern.length === path.length &&
+      pattern.every((segment, i) => segment === "*" || segment === path[i])
+  );
+}
+
+function censorValue(value: unknown, state: RedactState): string {
+  if (typeof value === "string" && value.length >= MIN_SCRUB_LENGTH) {
+    state.redacted.add(value);
+  }
+  return state.censor;
+}
+
+function scrubString(value: string, state: RedactState): string {
+  let result = value;
+
+  for (const secret of state.redacted) {
+    result = result.split(secret).join(state.censor);
+  }
+
+  for (const detector of state.policy.detectors ?? []) {
+    if (detector === "cardNumber") {
+      result = result.replace(DETECTOR_PATTERNS.cardNumber, (match) =>
+        passesLuhn(match) ? state.censor : match
+      );
+    } else {
+      const pattern =
+        typeof detector === "string" ? DETECTOR_PATTERNS[detector] : detector;
+      const global = pattern.global
+        ? pattern
+        : new RegExp(pattern.source, `${pattern.flags}g`);
+      result = result.replace(global, state.censor);
+    }
+  }
+
+  return result;
+}
+
+function redactNode(
+  value: unknown,
+  key: string,
+  path: readonly string[],
+  state: RedactState
+): unknown {
+  if (path.length > 0) {
+    if (
+      matchesPath(state.paths, path) ||
+      state.keys.some((pattern) => pattern.test(key))
+    ) {
+      return censorValue(value, state);
+    }
+    if (state.policy.replacer) {
+      const replaced = state.policy.replacer(value, key, path);
+      if (replaced !== value) {
+        return replaced;
+      }
+    }
+  }
+
+  if (typeof value === "string") {
+    return scrubString(value, state);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (state.seen.has(value)) {
+    return state.seen.get(value);
+  }
+  if (isTryError(value)) {
+    return redactTryError(value, state);
+  }
+  if (value instanceof Error) {
+    return redactNativeError(value, state);
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    state.seen.set(value, copy);
+    value.forEach((item, index) => {
+      const itemKey = String(index);
+      copy.push(redactNode(item, itemKey, [...path, itemKey], state));
+    });
+    return copy;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    // Dates, Maps, class instances, ... are passed through untouched
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  state.seen.set(value, copy);
+  for (const [childKey, child] of Object.entries(value)) {
+    copy[childKey] = redactNode(child, childKey, [...path, childKey], state);
+  }
+  return copy;
+}
+
+function redactContext(
+  context: Record<string, unknown> | undefined,
+  state: RedactState
+): Record<string, unknown> | undefined {
+  return context === undefined
+    ? undefined
+    : (redactNode(context, "", [], state) as Record<string, unknown>);
+}
+
+function redactNativeError(error: Error, state: RedactState): Error {
+  const copy = Object.create(Object.getPrototypeOf(error)) as Error;
+  state.seen.set(error, copy);
+
+  // Redact properties and cause first so their secrets are scrubbed from
+  // message and stack
+  Object.assign(copy, redactContext({ ...error }, state));
+  const cause = (error as { cause?: unknown }).cause;
+  const redactedCause =
+    cause === undefined ? undefined : redactNode(cause, "", [], state);
+
+  for (const [field, value] of [
+    ["name", error.name],
+    ["cause", redactedCause],
+    ["message", scrubString(error.message, state)],
+    ["stack", error.stack && scrubString(error.stack, state)],
+  ] as const) {
+    if (value !== undefined) {
+      Object.defineProperty(copy, field, {
+        value,
+        writable: true,
+        configurable: true,
+        enumerable: false,
+      });
+    }
+  }
+
+  return copy;
+}
+
+function redactTryError<E extends TryError>(error: E, state: RedactState): E {
+  const copy = { ...error } as Record<string, unknown>;
+  state.seen.set(error, copy);
+
+  // Redact context and domain fields first so their secrets are scrubbed
+  // from message and stack
+  copy.context = redactContext(error.context, state);
+  for (const key of Object.keys(error)) {
+    if (!TRY_ERROR_FIELDS.has(key)) {
+      copy[key] = redactNode(copy[key], key, [key], state);
+    }
+  }
+  if (error.cause !== undefined) {
+    copy.cause = redactNode(error.cause, "", [], state);
+  }
+  const errors = (error as { errors?: unknown }).errors;
+  if (Array.isArray(errors)) {
+    copy.errors = errors.map((entry) => redactNode(entry, "", [], state));
+  }
+  copy.message = scrubString(error.message, state);
+  if (error.stack) {
+    copy.stack = scrubString(error.stack, state);
+  }
+
+  return copy as E;
+}
+
+/**
+ * Apply a redaction policy to a TryError
+ *
+ * Returns a redacted copy; the original error is not modified. Nested
+ * TryErrors and native Errors in `cause` and `errors` are redacted too.
+ *
+ * @param error - The error to redact
+ * @param policy - The redaction policy
+ * @returns A redacted copy of the error
+ *
+ * @example
+ * ```typescript
+ * const safe = redactError(error, {
+ *   paths: ["user.password"],
+ *   keys: [/token/i],
+ *   detectors: ["email", "jwt"],
+ * });
+ * ```
+ */
+export function redactError<E extends TryError>(
+  error: E,
+  policy: RedactConfig
+): E {
+  return redactTryError(error, createState(policy));
+}
+
+/**
+ * Redact the message, context, cause and domain fields of an error about
+ * to be created
+ */
+export function redactErrorOptions<
+  O extends {
+    message: string;
+    context?: Record<string, unknown>;
+    cause?: unknown;
+  }
+>(
+  options: O,
+  policy: RedactConfig,
+  fields?: Readonly<Record<string, unknown>>
+): { options: O; fields?: Readonly<Record<string, unknown>> } {
+  const state = createState(policy);
+
+  // Domain fields first so their secrets are scrubbed from the message
+  let redactedFields: Record<string, unknown> | undefined;
+  if (fields) {
+    redactedFields = {};
+    for (const [key, value] of Object.entries(fields)) {
+      redactedFields[key] = redactNode(value, key, [key], state);
+    }
+  }
+
+  const context = redactContext(options.context, state);
+  return {
+    options: {
+      ...options,
+      context,
+      cause:
+        options.cause === undefined
+          ? undefined
+          : redactNode(options.cause, "", [], state),
+      message: scrubString(options.message, state),
+    },
+    fields: redactedFields,
+  };
+}
+
+/**
+ * Redact an error on its way out (serialization, logging, reporting)
+ * unless the policy already ran when the error was created
+ */
+export function redactForOutput<E extends TryError>(
+  error: E,
+  policy: RedactConfig | undefined
+): E {
+  return policy && policy.mode !== "creation"
+    ? redactError(error, policy)
+    : error;
+}
@@ -0,0 +1,354 @@
+/**
+ * Fluent wrappers for TryResult values
+ *
+ * `Result` and `AsyncResult` are opt-in helpers for readable chaining.
+ * They wrap the plain zero-overhead TryResult representation and convert
+ * back to it at the edges, so they interoperate with every other API.
+ */
+
+import { TryError, TryResult, isTryError } from "./types";
+import {
+  trySync,
+  TrySyncOptions,
+  MappedTrySyncOptions,
+  orThrow,
+} from "./sync";
+import { tryAsync, TryAsyncOptions, MappedTryAsyncOptions } from "./async";
+import { fromThrown } from "./errors";
+
+/**
+ * Handlers for matching on a wrapped result
+ */
+export interface ResultMatchHandlers<T, E extends TryError, U> {
+  ok: (value: T) => U;
+  err: (error: E) => U;
+}
+
+/**
+ * Fluent wrapper around a synchronous TryResult
+ *
+ * @example
+ * ```typescript
+ * const port = Result.try(() => readConfig())
+ *   .map((config) => config.port)
+ *   .mapErr((error) => createError({ type: "ConfigError", message: error.message, cause: error }))
+ *   .recover(() => 3000)
+ *   .toTryResult();
+ * ```
+ */
+export class Result<T, E extends TryError = TryError> {
+  private constructor(private readonly result: TryResult<T, E>) {}
+
+  /**
+   * Wrap an existing TryResult
+   */
+  static from<T, E extends TryError = TryError>(
+    result: TryResult<T, E>
+  ): Result<T, E> {
+    return new Result<T, E>(result);
+  }
+
+  /**
+   * Run a function with trySync and wrap its result
+   */
+  static try<T, E extends TryError>(
+    fn: () => T,
+    options: MappedTrySyncOptions<E>
+  ): Result<T, E>;
+  static try<T>(fn: () => T, options?: TrySyncOptions): Result<T, TryError>;
+  static try<T, E extends TryError>(
+    fn: () => T,
+    options?: TrySyncOptions<E>
+  ): Result<T, E | TryError> {
+    return new Result<T, E | TryError>(trySync<T>(fn, options));
+  }
+
+  /**
+   * Check if the wrapped result is a success
+   */
+  isOk(): boolean {
+    return !isTryError(this.result);
+  }
+
+  /**
+   * Check if the wrapped result is an error
+   */
+  isErr(): boolean {
+    return isTryError(this.result);
+  }
+
+  /**
+   * Transform the success value; thrown exceptions become errors
+   */
+  map<U>(mapper: (value: T) => U): Result<U, E | TryError> {
+    if (isTryError(this.result)) {
+      return new Result<U, E>(this.result);
+    }
+    const value = this.result;
+    return new Result<U, TryError>(trySync(() => mapper(value)));
+  }
+
+  /**
+   * Chain an operation that returns a TryResult or Result; thrown
+   * exceptions become errors
+   */
+  flatMap<U, E2 extends TryError>(
+    chainer: (value: T) => TryResult<U, E2> | Result<U, E2>
+  ): Result<U, E | E2 | TryError> {
+    if (isTryError(this.result)) {
+      return new Result<U, E>(this.result);
+    }
+    const value = this.result;
+    const next = trySync(() => chainer(value));
+    return next instanceof Result
+      ? next
+      : new Result<U, E2 | TryError>(next as TryResult<U, E2 | TryError>);
+  }
+
+  /**
+   * Transform the error, leaving success values unchanged; a mapper that
+   * throws produces that failure as the error instead
+   */
+  mapErr<E2 extends TryError>(
+    mapper: (error: E) => E2
+  ): Result<T, E2 | TryError> {
+    if (isTryError(this.result)) {
+      const error = this.result;
+      return new Result<T, E2 | TryError>(trySync(() => mapper(error)));
+    }
+    return new Result<T, E2>(this.result);
+  }
+
+  /**
+   * Replace an error with a fallback value computed from it; a TryError
+   * returned by the handler, or a handler failure, stays an error
+   */
+  recover<U>(
+    handler: (error: E) => U
+  ): Result<T | Exclude<U, TryError>, Extract<U, TryError> | TryError> {
+    if (!isTryError(this.result)) {
+      return new Result<T, never>(this.result);
+    }
+    const error = this.result;
+    return new Result(
+      trySync(() => handler(error)) as TryResult<
+        Exclude<U, TryError>,
+        Extract<U, TryError> | TryError
+      >
+    );
+  }
+
+  /**
+   * Get the success value or a default
+   */
+  unwrapOr<D>(defaultValue: D): T | D {
+    return isTryError(this.result) ? defaultValue : this.result;
+  }
+
+  /**
+   * Get the success value or throw the error as a native Error
+   */
+  orThrow(): T {
+    return orThrow(this.result);
+  }
+
+  /**
+   * Handle both cases and return a single value
+   */
+  match<U>(handlers: ResultMatchHandlers<T, E, U>): U {
+    if (isTryError(this.result)) {
+      return handlers.err(this.result);
+    }
+    return handlers.ok(this.result);
+  }
+
+  /**
+   * Continue the chain with async operations
+   */
+  toAsync(): AsyncResult<T, E> {
+    return AsyncResult.from<T, E>(this.result);
+  }
+
+  /**
+   * Convert back to a plain TryResult
+   */
+  toTryResult(): TryResult<T, E> {
+    return this.result;
+  }
+}
+
+/**
+ * Awaitable fluent wrapper around a Promise of a TryResult
+ *
+ * Awaiting an AsyncResult yields the plain TryResult. Callbacks that throw
+ * or reject produce errors, so the chain never rejects.
+ *
+ * @example
+ * ```typescript
+ * const name = await AsyncResult.try(() => fetchUser(id))
+ *   .map((user) => user.name)
+ *   .recover(() => "Guest");
+ * ```
+ */
+export class AsyncResult<T, E extends TryError = TryError>
+  implements PromiseLike<TryResult<T, E>>
+{
+  private constructor(private readonly promise: Promise<TryResult<T, E>>) {}
+
+  /**
+   * Wrap a TryResult or a Promise of one
+   */
+  static from<T, E extends TryError = TryError>(
+    result: TryResult<T, E> | Promise<TryResult<T, E>>
+  ): AsyncResult<T, E> {
+    return new AsyncResult<T, E>(
+      Promise.resolve(result).catch((error) => fromThrown(error) as E)
+    );
+  }
+
+  /**
+   * Run an async function with tryAsync and wrap its result
+   */
+  static try<T, E extends TryError>(
+    fn: () => Promise<T>,
+    options: MappedTryAsyncOptions<E>
+  ): AsyncResult<T, E>;
+  static try<T>(
+    fn: () => Promise<T>,
+    options?: TryAsyncOptions
+  ): AsyncResult<T, TryError>;
+  static try<T, E extends TryError>(
+    fn: () => Promise<T>,
+    options?: TryAsyncOptions<E>
+  ): AsyncResult<T, E | TryError> {
+    return new AsyncResult<T, E | TryError>(tryAsync<T>(fn, options));
+  }
+
+  /**
+   * Resolve to the plain TryResult
+   */
+  then<R1 = TryResult<T, E>, R2 = never>(
+    onfulfilled?:
+      | ((value: TryResult<T, E>) => R1 | PromiseLike<R1>)
+      | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Transform the success value; thrown exceptions and rejections become errors
+   */
+  map<U>(
+    mapper: (value: T) => U | Promise<U>
+  ): AsyncResult<U, E | TryError> {
+    return new AsyncResult<U, E | TryError>(
+      this.promise.then((result) => {
+        if (isTryError(result)) {
+          return result;
+        }
+        return tryAsync(async () => mapper(result));
+      })
+    );
+  }
+
+  /**
+   * Chain an operation that returns a TryResult, a Promise of one, or a
+   * wrapper; thrown exceptions and rejections become errors
+   */
+  flatMap<U, E2 extends TryError>(
+    chainer: (
+      value: T
+    ) =>
+      | TryResult<U, E2>
+      | Promise<TryResult<U, E2>>
+      | Result<U, E2>
+      | AsyncResult<U, E2>
+  ): AsyncResult<U, E | E2 | TryError> {
+    return new AsyncResult<U, E | E2 | TryError>(
+      this.promise.then((result) => {
+        if (isTryError(result)) {
+          return result;
+        }
+        return tryAsync(async () => {
+          const next = await chainer(result);
+          return next instanceof Result ? next.toTryResult() : next;
+        });
+      })
+    );
+  }
+
+  /**
+   * Transform the error, leaving success values unchanged; a mapper that
+   * throws or rejects produces that failure as the error instead
+   */
+  mapErr<E2 extends TryError>(
+    mapper: (error: E) => E2 | Promise<E2>
+  ): AsyncResult<T, E2 | TryError> {
+    return new AsyncResult<T, E2 | TryError>(
+      this.promise.then(
+        (result): TryResult<T, E2 | TryError> | Promise<E2 | TryError> =>
+          isTryError(result) ? tryAsync(async () => mapper(result)) : result
+      )
+    );
+  }
+
+  /**
+   * Replace an error with a fallback value computed from it; a TryError
+   * returned by the handler, or a handler failure, stays an error
+   */
+  recover<U>(
+    handler: (error: E) => U | Promise<U>
+  ): AsyncResult<T | Exclude<U, TryError>, Extract<U, TryError> | TryError> {
+    type Recovered = TryResult<
+      T | Exclude<U, TryError>,
+      Extract<U, TryError> | TryError
+    >;
+    return new AsyncResult<
+      T | Exclude<U, TryError>,
+      Extract<U, TryError> | TryError
+    >(
+      this.promise.then((result): Recovered | Promise<Recovered> =>
+        isTryError(result)
+          ? (tryAsync(async () => handler(result)) as Promise<Recovered>)
+          : result
+      )
+    );
+  }
+
+  /**
+   * Resolve to the success value or a default
+   */
+  async unwrapOr<D>(defaultValue: D): Promise<T | D> {
+    const result = await this.promise;
+    return isTryError(result) ? defaultValue : result;
+  }
+
+  /**
+   * Resolve to the success value or reject with the error as a native Error
+   */
+  async orThrow(): Promise<T> {
+    const result = await this.promise;
+    return orThrow<T, E>(result);
+  }
+
+  /**
+   * Handle both cases and resolve to a single value
+   */
+  async match<U>(
+    handlers: ResultMatchHandlers<T, E, U | Promise<U>>
+  ): Promise<U> {
+    const result = await this.promise;
+    if (isTryError(result)) {
+      return handlers.err(result);
+    }
+    return handlers.ok(result);
+  }
+
+  /**
+   * Convert back to a Promise of a plain TryResult
+   */
+  toPromise(): Promise<TryResult<T, E>> {
+    return this.promise;
+  }
+}
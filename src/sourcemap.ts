@@ -0,0 +1,438 @@
+/**
+ * Offline source map resolution
+ *
+ * Errors created by compiled code report `source` locations and stack
+ * frames in the emitted JavaScript (`dist/index.js:1:4821`). These helpers
+ * read the local `.map` files and rewrite them back to the original sources.
+ * Nothing is fetched over the network: maps come from `mapDir` or from next
+ * to the compiled files, and parsed maps are cached per file.
+ *
+ * Maps are read synchronously the first time a file is resolved. With the
+ * `sourceMapResolver` config option that happens on first access of an
+ * error's `source` or `stack`, so list the compiled files in `preload` to
+ * read their maps up front instead.
+ *
+ * @example
+ * ```typescript
+ * // One-off, e.g. in an error reporter
+ * const readable = resolveSourceMaps(error, { mapDir: "dist" });
+ *
+ * // Every created error, resolved on first access of source/stack
+ * configure({
+ *   sourceMapResolver: createSourceMapResolver({ mapDir: "dist" }),
+ * });
+ * ```
+ */
+
+import { TryError } from "./types";
+import { makeLazy } from "./lazy";
+import { parseStackFrame } from "./stack";
+
+/**
+ * A 1-based position in a file
+ */
+export interface SourcePosition {
+  readonly file: string;
+  readonly line: number;
+  readonly column: number;
+}
+
+/**
+ * Map a compiled position to its original position, or `undefined` if it
+ * can't be mapped
+ */
+export type SourceMapResolver = (
+  position: SourcePosition
+) => SourcePosition | undefined;
+
+/**
+ * Options for reading source maps
+ */
+export interface SourceMapOptions {
+  /**
+   * Directory holding the `.map` files, looked up by the compiled file's
+   * name (`<mapDir>/index.js.map`). Maps next to the compiled file are
+   * used as a fallback.
+   */
+  mapDir?: string;
+
+  /**
+   * Compiled files whose maps are read when the resolver is created, so
+   * resolving errors later doesn't block on reading them
+   */
+  preload?: readonly string[];
+}
+
+// [generatedColumn] or [generatedColumn, sourceIndex, sourceLine, sourceColumn]
+// with 0-based lines and columns
+type MappingSegment = readonly number[];
+
+interface ParsedSourceMap {
+  // Resolved paths of the original sources
+  readonly sources: readonly string[];
+  // Segments of each generated line, ordered by column
+  readonly lines: ReadonlyArray<readonly MappingSegment[]>;
+}
+
+interface NodeFs {
+  readFileSync(path: string, encoding: "utf8"): string;
+}
+
+interface NodePath {
+  basename(path: string): string;
+  dirname(path: string): string;
+  join(...paths: string[]): string;
+  resolve(...paths: string[]): string;
+}
+
+/**
+ * Load a Node built-in without a static import, so browser bundles don't
+ * pull it in
+ */
+function loadNodeModule<T>(specifier: string): T | undefined {
+  try {
+    return typeof process !== "undefined" &&
+      typeof process.getBuiltinModule === "function"
+      ? (process.getBuiltinModule(specifier) as T)
+      : typeof require === "function"
+      ? (require(specifier) as T)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Parsed maps by map file path; null when the map is missing or invalid
+const mapCache = new Map<string, ParsedSourceMap | null>();
+
+const BASE64_DIGITS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid source map mapping: ${segment}`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  // Source fields are relative to the previous segment across lines
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  for (const lineText of mappings.split(";")) {
+    const segments: MappingSegment[] = [];
+    let column = 0;
+
+    for (const segmentText of lineText.split(",")) {
+      if (!segmentText) continue;
+      const values = decodeVlq(segmentText);
+      column += values[0];
+      if (values.length >= 4) {
+        sourceIndex += values[1];
+        sourceLine += values[2];
+        sourceColumn += values[3];
+        segments.push([column, sourceIndex, sourceLine, sourceColumn]);
+      } else {
+        segments.push([column]);
+      }
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+
+  return lines;
+}
+
+function stripFileUrl(file: string): string {
+  return file.startsWith("file://") ? decodeURI(file.slice(7)) : file;
+}
+
+function readSourceMap(
+  mapPath: string,
+  fs: NodeFs,
+  path: NodePath
+): ParsedSourceMap | null {
+  const cached = mapCache.get(mapPath);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let parsed: ParsedSourceMap | null = null;
+  try {
+    const raw = JSON.parse(fs.readFileSync(mapPath, "utf8")) as {
+      sources?: Array<string | null>;
+      sourceRoot?: string;
+      mappings?: string;
+    };
+    if (Array.isArray(raw.sources) && typeof raw.mappings === "string") {
+      const root = path.resolve(path.dirname(mapPath), raw.sourceRoot ?? "");
+      parsed = {
+        sources: raw.sources.map((source) => {
+          const file = stripFileUrl(source ?? "");
+          // Keep URLs like webpack:// as they are
+          return /^[a-z][\w+.-]*:\/\//i.test(file)
+            ? file
+            : path.resolve(root, file);
+        }),
+        lines: decodeMappings(raw.mappings),
+      };
+    }
+  } catch {
+    // Missing or invalid maps are cached as unresolvable
+  }
+
+  mapCache.set(mapPath, parsed);
+  return parsed;
+}
+
+function findSegment(
+  segments: readonly MappingSegment[],
+  column: number
+): MappingSegment | undefined {
+  // Last segment starting at or before the column
+  let low = 0;
+  let high = segments.length - 1;
+  let found: MappingSegment | undefined;
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    if (segments[middle][0] <= column) {
+      found = segments[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Create a resolver that reads local `.map` files
+ *
+ * Parsed maps are cached, so a resolver can be used for every error.
+ * Outside Node (no file system) positions are never resolved.
+ *
+ * @param options - Where to find the maps
+ * @returns A resolver for `resolveSourceMaps` or the `sourceMapResolver`
+ * config option
+ */
+export function createSourceMapResolver(
+  options: SourceMapOptions = {}
+): SourceMapResolver {
+  const findMap = (
+    file: string,
+    fs: NodeFs,
+    path: NodePath
+  ): ParsedSourceMap | undefined => {
+    const candidates = options.mapDir
+      ? [path.join(options.mapDir, `${path.basename(file)}.map`), `${file}.map`]
+      : [`${file}.map`];
+    for (const candidate of candidates) {
+      const map = readSourceMap(path.resolve(candidate), fs, path);
+      if (map) {
+        return map;
+      }
+    }
+    return undefined;
+  };
+
+  if (options.preload) {
+    const fs = loadNodeModule<NodeFs>("node:fs");
+    const path = loadNodeModule<NodePath>("node:path");
+    if (fs && path) {
+      for (const file of options.preload) {
+        findMap(stripFileUrl(file), fs, path);
+      }
+    }
+  }
+
+  return (position) => {
+    const fs = loadNodeModule<NodeFs>("node:fs");
+    const path = loadNodeModule<NodePath>("node:path");
+    if (!fs || !path) {
+      return undefined;
+    }
+
+    const file = stripFileUrl(position.file);
+    const map = findMap(file, fs, path);
+    if (!map) {
+      return undefined;
+    }
+
+    const segment = findSegment(
+      map.lines[position.line - 1] ?? [],
+      position.column - 1
+    );
+    if (!segment || segment.length < 4) {
+      return undefined;
+    }
+    return {
+      file: map.sources[segment[1]] ?? file,
+      line: segment[2] + 1,
+      column: segment[3] + 1,
+    };
+  };
+}
+
+/**
+ * Clear the parsed source map cache, e.g. after a rebuild
+ */
+export function clearSourceMapCache(): void {
+  mapCache.clear();
+}
+
+const SOURCE_LOCATION = /^(.+):(\d+):(\d+)$/;
+
+function getStackFrames(stack: string | undefined) {
+  return (stack ?? "").split("\n").map(parseStackFrame);
+}
+
+/**
+ * Find the compiled file a source refers to
+ *
+ * Default sources only hold the file name, which can't be resolved without
+ * `mapDir`. The frame they were taken from is also in the error's stack,
+ * so the full path is read from the frame at the same position.
+ */
+function findSourceFile(
+  file: string,
+  line: number,
+  column: number,
+  stack: string | undefined
+): string {
+  if (/[\\/]/.test(file)) {
+    return file;
+  }
+  const frame = getStackFrames(stack).find(
+    (candidate) =>
+      candidate?.line === line &&
+      candidate.column === column &&
+      candidate.file !== file &&
+      candidate.file.split(/[\\/]/).pop() === file
+  );
+  return frame?.file ?? file;
+}
+
+function resolveSource(
+  source: string,
+  stack: string | undefined,
+  resolver: SourceMapResolver
+): string {
+  const match = SOURCE_LOCATION.exec(source);
+  if (!match) {
+    return source;
+  }
+
+  const line = Number(match[2]);
+  const column = Number(match[3]);
+  const resolved = resolver({
+    file: findSourceFile(match[1], line, column, stack),
+    line,
+    column,
+  });
+  if (!resolved) {
+    return source;
+  }
+
+  // Keep the short "file:line:column" format when the source used it
+  const separator = Math.max(
+    resolved.file.lastIndexOf("/"),
+    resolved.file.lastIndexOf("\\")
+  );
+  const file = /[\\/]/.test(match[1])
+    ? resolved.file
+    : resolved.file.slice(separator + 1);
+  return `${file}:${resolved.line}:${resolved.column}`;
+}
+
+function resolveStack(stack: string, resolver: SourceMapResolver): string {
+  const lines = stack.split("\n");
+  return getStackFrames(stack)
+    .map((frame, i) => {
+      const line = lines[i];
+      if (
+        !frame ||
+        frame.isNative ||
+        frame.line === undefined ||
+        frame.column === undefined
+      ) {
+        return line;
+      }
+      const resolved = resolver({
+        file: frame.file,
+        line: frame.line,
+        column: frame.column,
+      });
+      // Replace the location in place, keeping the V8 or Firefox format
+      const location = `${frame.file}:${frame.line}:${frame.column}`;
+      const index = line.lastIndexOf(location);
+      if (!resolved || index === -1) {
+        return line;
+      }
+      return (
+        line.slice(0, index) +
+        `${resolved.file}:${resolved.line}:${resolved.column}` +
+        line.slice(index + location.length)
+      );
+    })
+    .join("\n");
+}
+
+/**
+ * Rewrite an error's `source` and stack frames to the original sources
+ *
+ * @param error - The error to resolve
+ * @param options - Where to find the maps, or a resolver to use
+ * @returns A copy of the error with resolved locations; positions without
+ * a map are left unchanged
+ *
+ * @example
+ * ```typescript
+ * const resolved = resolveSourceMaps(error, { mapDir: "dist" });
+ * resolved.source; // "orders.ts:42:11" instead of "index.js:1:4821"
+ * ```
+ */
+export function resolveSourceMaps<E extends TryError>(
+  error: E,
+  options: SourceMapOptions | SourceMapResolver = {}
+): E {
+  const resolver =
+    typeof options === "function" ? options : createSourceMapResolver(options);
+  return {
+    ...error,
+    source: resolveSource(error.source, error.stack, resolver),
+    stack: error.stack && resolveStack(error.stack, resolver),
+  };
+}
+
+/**
+ * Resolve an error's `source` and stack on first access
+ * @internal
+ */
+export function applySourceMapResolver<E extends TryError>(
+  error: E,
+  resolver: SourceMapResolver
+): E {
+  return makeLazy(error, {
+    source: () => resolveSource(error.source, error.stack, resolver),
+    stack: () => error.stack && resolveStack(error.stack, resolver),
+  });
+}
@@ -0,0 +1,300 @@
+/**
+ * Structured stack frames
+ *
+ * Parses V8 (Node.js, Chrome, Edge), Firefox and Safari stack traces into
+ * `StackFrame` objects that can be filtered and formatted. The
+ * `stackFormatter` config option uses these to shape the stacks captured
+ * for created errors, e.g. hiding node_modules and try-error's own frames.
+ *
+ * @example
+ * ```typescript
+ * const frames = parseStack(error, { hideNodeModules: true, limit: 5 });
+ * frames[0]; // { functionName: "loadUser", file: "/app/src/users.ts", ... }
+ *
+ * configure({
+ *   stackFormatter: createStackFormatter({ hideInternals: true, limit: 10 }),
+ * });
+ * ```
+ */
+
+/**
+ * A single parsed stack frame
+ */
+export interface StackFrame {
+  /** Function name, undefined for anonymous and top-level code */
+  readonly functionName?: string;
+  /** File path or URL, "native" for native code */
+  readonly file: string;
+  /** 1-based line, if known */
+  readonly line?: number;
+  /** 1-based column, if known */
+  readonly column?: number;
+  /** Native code or a runtime built-in (`node:` modules) */
+  readonly isNative: boolean;
+  /** Code inside a node_modules directory */
+  readonly isNodeModules: boolean;
+  /** An async continuation ("at async fn" / "async*fn") */
+  readonly isAsync: boolean;
+  /** The original stack line */
+  readonly raw: string;
+}
+
+/**
+ * Which frames to keep
+ */
+export interface StackFilterOptions {
+  /**
+   * Drop frames inside node_modules
+   * @default false
+   */
+  hideNodeModules?: boolean;
+
+  /**
+   * Drop try-error's own frames
+   * @default false
+   */
+  hideInternals?: boolean;
+
+  /**
+   * Drop native and runtime built-in frames
+   * @default false
+   */
+  hideNative?: boolean;
+
+  /**
+   * Keep at most this many frames (applied after the other filters)
+   */
+  limit?: number;
+}
+
+/**
+ * Format the frames of a captured stack
+ *
+ * @param frames - The parsed frames, outermost last
+ * @param header - The lines before the first frame ("Type: message")
+ * @returns The stack to store on the error, or undefined to drop it
+ */
+export type StackFormatter = (
+  frames: readonly StackFrame[],
+  header: string
+) => string | undefined;
+
+// "fn (location)", capturing up to the first " ("
+const V8_CALL = /^(.*?) \((.*)\)$/;
+// Location inside an eval frame: "eval at fn (file:line:column), ..."
+const V8_EVAL_ORIGIN = /\((.+?):(\d+):(\d+)\)/;
+// "functionName@location", Firefox and Safari
+const GECKO_FRAME = /^(.*?)@(.*)$/;
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/;
+
+function createFrame(
+  raw: string,
+  functionName: string | undefined,
+  location: string,
+  isAsync: boolean
+): StackFrame {
+  const match = LOCATION.exec(location);
+  const file = match ? match[1] : location;
+  const isNative =
+    file === "native" || file === "[native code]" || file.startsWith("node:");
+
+  return {
+    functionName: functionName || undefined,
+    file: file === "[native code]" ? "native" : file,
+    line: match ? Number(match[2]) : undefined,
+    column: match?.[3] !== undefined ? Number(match[3]) : undefined,
+    isNative,
+    isNodeModules: /[\\/]node_modules[\\/]/.test(file),
+    isAsync,
+    raw,
+  };
+}
+
+function parseV8Frame(raw: string, body: string): StackFrame {
+  const isAsync = body.startsWith("async ");
+  const call = isAsync ? body.slice(6) : body;
+
+  const match = V8_CALL.exec(call);
+  if (!match) {
+    return createFrame(raw, undefined, call, isAsync);
+  }
+
+  const [, functionName, location] = match;
+  const evalOrigin = location.startsWith("eval at ")
+    ? V8_EVAL_ORIGIN.exec(location)
+    : null;
+  return createFrame(
+    raw,
+    functionName,
+    evalOrigin
+      ? `${evalOrigin[1]}:${evalOrigin[2]}:${evalOrigin[3]}`
+      : location,
+    isAsync
+  );
+}
+
+/**
+ * Parse one line of a stack trace
+ *
+ * @param line - A V8, Firefox or Safari stack line
+ * @returns The frame, or null for lines that aren't frames (e.g. the
+ * "Type: message" header)
+ */
+export function parseStackFrame(line: string): StackFrame | null {
+  const trimmed = line.trim();
+
+  // V8: "at fn (file:line:column)" or "at file:line:column"
+  if (trimmed.startsWith("at ")) {
+    return parseV8Frame(line, trimmed.slice(3).trim());
+  }
+
+  // Firefox / Safari: "fn@file:line:column", "async*fn@...", "@file:..."
+  const gecko = GECKO_FRAME.exec(trimmed);
+  if (gecko && (LOCATION.test(gecko[2]) || gecko[2] === "[native code]")) {
+    const isAsync = gecko[1].startsWith("async*");
+    return createFrame(
+      line,
+      isAsync ? gecko[1].slice(6) : gecko[1],
+      gecko[2],
+      isAsync
+    );
+  }
+
+  // Safari frames without a function name: "file:line:column"
+  if (/^\S+:\d+:\d+$/.test(trimmed)) {
+    return createFrame(line, undefined, trimmed, false);
+  }
+  if (trimmed === "[native code]") {
+    return createFrame(line, undefined, trimmed, false);
+  }
+
+  return null;
+}
+
+// Directory of this file, which holds all of try-error's modules
+let libraryDir: string | null = null;
+
+function getLibraryDir(): string {
+  if (libraryDir === null) {
+    const frame = (new Error().stack ?? "")
+      .split("\n")
+      .map(parseStackFrame)
+      .find((candidate) => candidate?.line !== undefined);
+    const file = frame?.file ?? "";
+    libraryDir = file.slice(
+      0,
+      Math.max(file.lastIndexOf("/"), file.lastIndexOf("\\")) + 1
+    );
+  }
+  return libraryDir;
+}
+
+/**
+ * Apply filters to parsed frames
+ *
+ * @param frames - Frames from `parseStack`
+ * @param options - Which frames to keep
+ * @returns The kept frames, in order
+ */
+export function filterStackFrames(
+  frames: readonly StackFrame[],
+  options: StackFilterOptions = {}
+): StackFrame[] {
+  const internalDir = options.hideInternals ? getLibraryDir() : "";
+  const kept = frames.filter(
+    (frame) =>
+      !(options.hideNodeModules && frame.isNodeModules) &&
+      !(options.hideNative && frame.isNative) &&
+      !(internalDir && frame.file.startsWith(internalDir))
+  );
+  return options.limit !== undefined
+    ? kept.slice(0, Math.max(0, options.limit))
+    : kept;
+}
+
+/**
+ * Parse an error's stack into structured frames
+ *
+ * @param error - An error (or TryError) with a stack, or the stack itself
+ * @param options - Filters to apply
+ * @returns The frames, innermost first; empty without a stack
+ *
+ * @example
+ * ```typescript
+ * const [top] = parseStack(error, { hideInternals: true });
+ * console.log(`${top.functionName} at ${top.file}:${top.line}`);
+ * ```
+ */
+export function parseStack(
+  error: { readonly stack?: string } | string | null | undefined,
+  options?: StackFilterOptions
+): StackFrame[] {
+  const stack = typeof error === "string" ? error : error?.stack;
+  if (!stack) {
+    return [];
+  }
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split("\n")) {
+    const frame = parseStackFrame(line);
+    if (frame) {
+      frames.push(frame);
+    }
+  }
+  return options ? filterStackFrames(frames, options) : frames;
+}
+
+/**
+ * Format a frame as a V8 stack line
+ */
+export function formatStackFrame(frame: StackFrame): string {
+  const location =
+    frame.line === undefined
+      ? frame.file
+      : frame.column === undefined
+      ? `${frame.file}:${frame.line}`
+      : `${frame.file}:${frame.line}:${frame.column}`;
+  const call = frame.functionName
+    ? `${frame.functionName} (${location})`
+    : location;
+  return `    at ${frame.isAsync ? "async " : ""}${call}`;
+}
+
+/**
+ * Create a stack formatter that filters frames and prints them in V8 format
+ *
+ * @param options - Which frames to keep
+ * @returns A formatter for the `stackFormatter` config option
+ */
+export function createStackFormatter(
+  options: StackFilterOptions = {}
+): StackFormatter {
+  return (frames, header) =>
+    [header, ...filterStackFrames(frames, options).map(formatStackFrame)]
+      .filter(Boolean)
+      .join("\n");
+}
+
+/**
+ * Run a stack through a formatter
+ * @internal
+ */
+export function formatStack(
+  stack: string,
+  formatter: StackFormatter
+): string | undefined {
+  const lines = stack.split("\n");
+  const frames: StackFrame[] = [];
+  const header: string[] = [];
+
+  for (const line of lines) {
+    const frame = parseStackFrame(line);
+    if (frame) {
+      frames.push(frame);
+    } else if (frames.length === 0) {
+      header.push(line);
+    }
+  }
+
+  return formatter(frames, header.join("\n"));
+}
@@ -4,8 +4,30 @@
 // Re-export all core functionality
 export * from "./core";
 
+// Typed error classification
+export type {
+  ErrorMapper,
+  ErrorMapperTable,
+  MappedError,
+  ThrownConstructor,
+  ThrownClassification,
+  ThrownClassifier,
+} from "./classify";
+
+export {
+  classifyError,
+  classifyThrown,
+  registerThrownClassifier,
+  unregisterThrownClassifier,
+} from "./classify";
+
 // Export synchronous error handling
-export type { TrySyncOptions } from "./sync";
+export type {
+  TrySyncOptions,
+  MappedTrySyncOptions,
+  TryGenUnwrap,
+  TryAllOptions,
+} from "./sync";
 
 export {
   trySync,
@@ -13,9 +35,12 @@ export {
   tryCall,
   tryMap,
   tryChain,
+  tryGen,
   unwrap,
   unwrapOr,
   unwrapOrElse,
+  throwIfError,
+  orThrow,
   isOk,
   isErr,
   tryAll,
@@ -24,6 +49,7 @@ export {
   CircuitBreaker,
   createCircuitBreaker,
   withFallback,
+  recover,
 } from "./sync";
 
 // Export factories (mostly sync operations)
@@ -52,10 +78,21 @@ export {
   externalError,
   entityError,
   fieldValidationError,
+  entityErrorReviver,
+  amountErrorReviver,
+  externalErrorReviver,
+  validationErrorReviver,
 } from "./factories";
 
 // Export utilities (mostly sync operations)
-export type { ErrorHandlingOptions } from "./utils";
+export type {
+  ErrorHandlingOptions,
+  GetErrorMessageOptions,
+  ErrorTypeHandlers,
+  UnhandledErrors,
+  HandledResult,
+  FormatErrorOptions,
+} from "./utils";
 
 export {
   createEnhancedError,
@@ -79,6 +116,9 @@ export {
   ErrorSampling,
   correlateErrors,
   getErrorFingerprint,
+  getCauseChain,
+  findCause,
+  getRootCause,
 } from "./utils";
 
 // Export middleware system (supports both sync and async, but we'll only export sync parts)
@@ -2,15 +2,25 @@ import {
   TryError,
   TryResult,
   TryTuple,
+  TrySuccess,
+  TryFailure,
+  AggregateTryError,
   isTryError,
   TRY_ERROR_BRAND,
 } from "./types";
-import { fromThrown, wrapError } from "./errors";
+import {
+  fromThrown,
+  wrapError,
+  createAggregateError,
+  toNativeError,
+} from "./errors";
+import { ErrorMapper, classifyError } from "./classify";
+import { ErrorTypeHandlers, HandledResult, UnhandledErrors } from "./utils";
 
 /**
  * Options for trySync function
  */
-export interface TrySyncOptions {
+export interface TrySyncOptions<E extends TryError = TryError> {
   /**
    * Custom error type to use instead of automatic detection
    */
@@ -25,12 +35,36 @@ export interface TrySyncOptions {
    * Custom error message
    */
   message?: string;
+
+  /**
+   * Classify thrown values into a typed error union
+   * Takes precedence over errorType and narrows the result's error type.
+   * Errors thrown by the mapper itself are rethrown.
+   */
+  mapError?: ErrorMapper<E>;
 }
 
+/**
+ * TrySyncOptions with a mapError, whose error union types the result
+ */
+export type MappedTrySyncOptions<E extends TryError> = TrySyncOptions<E> & {
+  mapError: ErrorMapper<E>;
+};
+
 /**
  * Shared error creation logic that preserves stack traces
+ *
+ * Errors thrown by mapError propagate: a broken mapper is a bug, and
+ * falling back to a generic TryError would break the declared error union.
  */
-function createTryError(error: unknown, options?: TrySyncOptions): TryError {
+function createTryError<E extends TryError>(
+  error: unknown,
+  options?: TrySyncOptions<E>
+): E | TryError {
+  if (options?.mapError) {
+    return classifyError(error, options.mapError);
+  }
+
   if (options?.errorType) {
     // Use wrapError to preserve the original error and its stack trace
     return wrapError(
@@ -60,12 +94,28 @@ function createTryError(error: unknown, options?: TrySyncOptions): TryError {
  * } else {
  *   console.log('Parsed:', result);
  * }
+ *
+ * // Typed classification: TryResult<Config, ParseError | UnknownError>
+ * const config = trySync(() => parseConfig(raw), {
+ *   mapError: (error) =>
+ *     error instanceof SyntaxError
+ *       ? createError({ type: "ParseError", message: error.message })
+ *       : createError({ type: "UnknownError", message: String(error) }),
+ * });
  * ```
  */
+export function trySync<T, E extends TryError>(
+  fn: () => T,
+  options: MappedTrySyncOptions<E>
+): TryResult<T, E>;
 export function trySync<T>(
   fn: () => T,
   options?: TrySyncOptions
-): TryResult<T, TryError> {
+): TryResult<T, TryError>;
+export function trySync<T, E extends TryError>(
+  fn: () => T,
+  options?: TrySyncOptions<E>
+): TryResult<T, E | TryError> {
   try {
     return fn();
   } catch (error) {
@@ -91,11 +141,19 @@ export function trySync<T>(
  * }
  * ```
  */
+export function trySyncTuple<T, E extends TryError>(
+  fn: () => T,
+  options: MappedTrySyncOptions<E>
+): TryTuple<T, E>;
 export function trySyncTuple<T>(
   fn: () => T,
   options?: TrySyncOptions
-): TryTuple<T, TryError> {
-  const result = trySync(fn, options);
+): TryTuple<T, TryError>;
+export function trySyncTuple<T, E extends TryError>(
+  fn: () => T,
+  options?: TrySyncOptions<E>
+): TryTuple<T, E | TryError> {
+  const result = trySync<T>(fn, options);
   if (isTryError(result)) {
     return [null, result];
   }
@@ -123,6 +181,15 @@ export function tryCall<TArgs extends readonly unknown[], TReturn>(
   fn: (...args: TArgs) => TReturn,
   ...args: TArgs
 ): TryResult<TReturn, TryError>;
+export function tryCall<
+  TArgs extends readonly unknown[],
+  TReturn,
+  E extends TryError
+>(
+  fn: (...args: TArgs) => TReturn,
+  options: MappedTrySyncOptions<E>,
+  ...args: TArgs
+): TryResult<TReturn, E>;
 export function tryCall<TArgs extends readonly unknown[], TReturn>(
   fn: (...args: TArgs) => TReturn,
   options: TrySyncOptions,
@@ -148,8 +215,12 @@ export function tryCall<TArgs extends readonly unknown[], TReturn>(
       "errorType" in obj && typeof obj.errorType === "string";
     const hasContext = "context" in obj && typeof obj.context === "object";
     const hasMessage = "message" in obj && typeof obj.message === "string";
+    const hasMapError =
+      "mapError" in obj &&
+      (typeof obj.mapError === "function" ||
+        (typeof obj.mapError === "object" && obj.mapError !== null));
 
-    return hasErrorType || hasContext || hasMessage;
+    return hasErrorType || hasContext || hasMessage || hasMapError;
   };
 
   if (isTrySyncOptions(optionsOrFirstArg)) {
@@ -215,6 +286,60 @@ export function tryChain<T, U, E1 extends TryError, E2 extends TryError>(
   return chainer(result);
 }
 
+/**
+ * Unwrap helper passed to tryGen generator bodies
+ * Use with `yield*` to get the success value or short-circuit on error
+ */
+export type TryGenUnwrap = <R>(
+  result: R
+) => Generator<TryFailure<R>, TrySuccess<R>, unknown>;
+
+/**
+ * Yield the error of a TryResult (ending the generator run) or return its value
+ */
+function* unwrapGen<R>(
+  result: R
+): Generator<TryFailure<R>, TrySuccess<R>, unknown> {
+  if (isTryError(result)) {
+    yield result as TryFailure<R>;
+  }
+  return result as TrySuccess<R>;
+}
+
+/**
+ * Generator-based do-notation for chaining TryResults
+ * Short-circuits on the first TryError and infers the union of all error types
+ *
+ * Thrown exceptions are not caught - wrap throwing steps in trySync.
+ *
+ * @param body - Generator function that receives the unwrap helper
+ * @returns The generator's return value or the first error encountered
+ *
+ * @example
+ * ```typescript
+ * const result = tryGen(function* ($) {
+ *   const user = yield* $(getUser(id));
+ *   const order = yield* $(placeOrder(user));
+ *   return order;
+ * });
+ * // TryResult<Order, UserError | OrderError>
+ * ```
+ */
+export function tryGen<T, E extends TryError = never>(
+  body: ($: TryGenUnwrap) => Generator<E, T, unknown>
+): TryResult<T, E> {
+  const iterator = body(unwrapGen);
+  const step = iterator.next();
+
+  if (!step.done) {
+    // Run any finally blocks in the generator body before returning the error
+    iterator.return(undefined as T);
+    return step.value;
+  }
+
+  return step.value;
+}
+
 /**
  * Extract the success value from a TryResult, throwing if it's an error
  *
@@ -290,6 +415,48 @@ export function unwrapOrElse<T, D, E extends TryError>(
   return result;
 }
 
+/**
+ * Throw if a TryResult is an error, narrowing it to the success type
+ * The error is thrown as a native Error (see `toNativeError`)
+ *
+ * @param result - The result to check
+ * @throws NativeTryError if result is an error
+ *
+ * @example
+ * ```typescript
+ * const result = trySync(() => JSON.parse(jsonString));
+ * throwIfError(result);
+ * console.log(result.name); // result is narrowed to success type
+ * ```
+ */
+export function throwIfError<T, E extends TryError>(
+  result: TryResult<T, E>
+): asserts result is T {
+  if (isTryError(result)) {
+    throw toNativeError(result);
+  }
+}
+
+/**
+ * Extract the success value from a TryResult, throwing a native Error otherwise
+ * Use at boundaries with throw-based code; `fromThrown` rebuilds the TryError
+ *
+ * @param result - The result to unwrap
+ * @returns The success value
+ * @throws NativeTryError if result is an error
+ *
+ * @example
+ * ```typescript
+ * app.get("/user/:id", async (req, res) => {
+ *   res.json(orThrow(await tryAsync(() => getUser(req.params.id))));
+ * });
+ * ```
+ */
+export function orThrow<T, E extends TryError>(result: TryResult<T, E>): T {
+  throwIfError(result);
+  return result;
+}
+
 /**
  * Check if a TryResult is successful (not an error)
  * Type predicate that narrows the type
@@ -334,11 +501,24 @@ export function isErr<T, E extends TryError>(
   return isTryError(result);
 }
 
+/**
+ * Options for combining results with `tryAll` and `tryAllAsync`
+ */
+export interface TryAllOptions {
+  /**
+   * Gather every failure into an AggregateTryError instead of
+   * returning the first error
+   * @default false
+   */
+  collectAll?: boolean;
+}
+
 /**
  * Combine multiple TryResults, succeeding only if all succeed
  *
  * @param results - Array of TryResults to combine
- * @returns Array of success values or first error encountered
+ * @param options - Set `collectAll` to report every failure
+ * @returns Array of success values, or the first error (an AggregateTryError with `collectAll`)
  *
  * @example
  * ```typescript
@@ -347,24 +527,52 @@ export function isErr<T, E extends TryError>(
  *   trySync(() => JSON.parse(json2)),
  *   trySync(() => JSON.parse(json3))
  * ]);
+ *
+ * const validated = tryAll(rows.map(validateRow), { collectAll: true });
+ * if (isTryError(validated)) {
+ *   validated.errors.forEach(reportRowError);
+ * }
  * ```
  */
 export function tryAll<T extends readonly TryResult<any, any>[]>(
-  results: T
+  results: T,
+  options: TryAllOptions & { collectAll: true }
+): TryResult<
+  { [K in keyof T]: T[K] extends TryResult<infer U, any> ? U : never },
+  AggregateTryError<Extract<T[number], TryError>>
+>;
+export function tryAll<T extends readonly TryResult<any, any>[]>(
+  results: T,
+  options?: TryAllOptions
 ): TryResult<
   { [K in keyof T]: T[K] extends TryResult<infer U, any> ? U : never },
   TryError
-> {
-  const values: any[] = [];
+>;
+export function tryAll(
+  results: readonly unknown[],
+  options: TryAllOptions = {}
+): TryResult<unknown[], TryError> {
+  const values: unknown[] = [];
+  const errors: TryError[] = [];
 
   for (const result of results) {
     if (isTryError(result)) {
-      return result;
+      if (!options.collectAll) {
+        return result;
+      }
+      errors.push(result);
+    } else {
+      values.push(result);
     }
-    values.push(result);
   }
 
-  return values as any;
+  if (errors.length > 0) {
+    return createAggregateError(errors, {
+      message: `${errors.length} of ${results.length} operations failed`,
+    });
+  }
+
+  return values;
 }
 
 /**
@@ -572,3 +780,41 @@ export function withFallback<T>(
 
   return primaryResult;
 }
+
+/**
+ * Recover from specific error types, passing all others through unchanged
+ *
+ * Handled variants are removed from the error union of the returned result.
+ *
+ * @param result - The result to recover
+ * @param handlers - Fallback handlers keyed by error type
+ * @returns The success value, a handler's fallback, or the unhandled error
+ *
+ * @example
+ * ```typescript
+ * declare const result: TryResult<User, NetworkError | TimeoutError | AuthError>;
+ *
+ * const recovered = recover(result, {
+ *   NetworkError: () => cachedUser,
+ *   TimeoutError: () => guestUser,
+ * });
+ * // recovered: TryResult<User, AuthError>
+ * ```
+ */
+export function recover<
+  T,
+  E extends TryError,
+  H extends ErrorTypeHandlers<E>
+>(
+  result: TryResult<T, E>,
+  handlers: H & Record<Exclude<keyof H, E["type"]>, never>
+): TryResult<T | HandledResult<H>, UnhandledErrors<E, H>> {
+  if (
+    isTryError(result) &&
+    Object.prototype.hasOwnProperty.call(handlers, result.type)
+  ) {
+    const handler = handlers[result.type as keyof H] as (error: E) => unknown;
+    return handler(result) as HandledResult<H>;
+  }
+  return result as T | UnhandledErrors<E, H>;
+}
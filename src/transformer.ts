@@ -0,0 +1,538 @@
+/**
+ * Build-time source location injection
+ *
+ * Without a `source`, every createError call captures and parses a stack
+ * trace to find its caller, which is slow and breaks in minified bundles.
+ * This TypeScript transformer injects a static `source: "file:line:col"` into
+ * calls to createError, wrapError, fromThrown and the factory helpers, so the
+ * runtime never parses stacks for them. `injectSourceLocations` applies the
+ * same injection to source text for bundlers (see the esbuild plugin).
+ *
+ * Only calls bound to imports from try-error are rewritten, so unrelated
+ * functions that share a name (`this.createError(...)`) are left alone.
+ * Factories created with createErrorFactory and catalog factories
+ * (`Errors.factories.NotFound(...)`) are rewritten in the file that defines
+ * them; use `targets` for factories imported from elsewhere.
+ *
+ * @example
+ * ```typescript
+ * // ts-patch / ttypescript tsconfig.json
+ * {
+ *   "compilerOptions": {
+ *     "plugins": [{ "transform": "@try-error/core/transformer" }]
+ *   }
+ * }
+ *
+ * // Programmatic
+ * program.emit(undefined, undefined, undefined, false, {
+ *   before: [createSourceTransformer({ rootDir: "src" })],
+ * });
+ * ```
+ */
+
+import * as ts from "typescript";
+import * as path from "path";
+
+/**
+ * Where a function accepts its source location
+ */
+export type SourceInjectionTarget =
+  /** A `source` property on the options object at this argument index */
+  | { readonly kind: "options"; readonly index: number }
+  /** A positional `source` argument at this index */
+  | { readonly kind: "argument"; readonly index: number };
+
+/**
+ * Functions that receive an injected source by default
+ */
+export const DEFAULT_SOURCE_TARGETS: Readonly<
+  Record<string, SourceInjectionTarget>
+> = {
+  createError: { kind: "options", index: 0 },
+  wrapError: { kind: "argument", index: 4 },
+  fromThrown: { kind: "argument", index: 2 },
+  createEntityError: { kind: "options", index: 4 },
+  createAmountError: { kind: "options", index: 4 },
+  createExternalError: { kind: "options", index: 3 },
+  createValidationError: { kind: "options", index: 4 },
+};
+
+/**
+ * Modules whose imports are rewritten by default
+ */
+export const DEFAULT_SOURCE_MODULES: readonly string[] = [
+  "@try-error/core",
+  "try-error",
+];
+
+// Where factories created by these library functions accept their options
+const FACTORY_TARGET: SourceInjectionTarget = { kind: "options", index: 3 };
+const CATALOG_FACTORY_TARGET: SourceInjectionTarget = {
+  kind: "options",
+  index: 1,
+};
+
+/**
+ * Options for source location injection
+ */
+export interface SourceInjectionOptions {
+  /**
+   * Additional functions to inject into, matched by name wherever they come
+   * from, e.g. a factory exported by `createErrorFactory` in another file:
+   * `{ createPaymentError: { kind: "options", index: 3 } }`
+   */
+  targets?: Record<string, SourceInjectionTarget>;
+
+  /**
+   * Modules (and their subpaths) whose imports of the default targets are
+   * rewritten
+   * @default ["@try-error/core", "try-error"]
+   */
+  modules?: readonly string[];
+
+  /**
+   * Emit paths relative to this directory; by default only the file name
+   * is used, matching the runtime's default source format
+   */
+  rootDir?: string;
+}
+
+/**
+ * How a single call is rewritten
+ */
+type InjectionPlan =
+  // Add a `source` property to the options object literal at `index`
+  | {
+      readonly kind: "property";
+      readonly index: number;
+      readonly literal: ts.ObjectLiteralExpression;
+    }
+  // Append arguments, padding skipped optional ones with `undefined`
+  | {
+      readonly kind: "append";
+      readonly padding: number;
+      readonly asOptions: boolean;
+    };
+
+/**
+ * What the library is bound to in a single file
+ */
+interface FileBindings {
+  // Local name -> library export name, for named imports and requires
+  readonly imports: Map<string, string>;
+  // Local names of namespace imports and whole-module requires
+  readonly namespaces: Set<string>;
+  // Factories created in this file by createErrorFactory
+  readonly factories: Set<string>;
+  // Catalogs created in this file by defineErrorCatalog
+  readonly catalogs: Set<string>;
+}
+
+function isSourceModule(
+  specifier: string,
+  modules: readonly string[]
+): boolean {
+  return modules.some(
+    (name) => specifier === name || specifier.startsWith(`${name}/`)
+  );
+}
+
+/**
+ * The module of a `require("...")` call, if the expression is one
+ */
+function getRequiredModule(node: ts.Expression): string | undefined {
+  return ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "require" &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteral(node.arguments[0])
+    ? node.arguments[0].text
+    : undefined;
+}
+
+/**
+ * The library export an expression refers to, e.g. `createError` for both
+ * `createError` and `te.createError` when imported from try-error
+ */
+function getLibraryExport(
+  node: ts.Expression,
+  bindings: FileBindings
+): string | undefined {
+  if (ts.isIdentifier(node)) {
+    return bindings.imports.get(node.text);
+  }
+  if (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    bindings.namespaces.has(node.expression.text)
+  ) {
+    return node.name.text;
+  }
+  return undefined;
+}
+
+function collectImport(
+  node: ts.ImportDeclaration,
+  modules: readonly string[],
+  bindings: FileBindings
+): void {
+  const clause = node.importClause;
+  if (
+    !clause ||
+    clause.isTypeOnly ||
+    !ts.isStringLiteral(node.moduleSpecifier) ||
+    !isSourceModule(node.moduleSpecifier.text, modules)
+  ) {
+    return;
+  }
+
+  const named = clause.namedBindings;
+  if (named && ts.isNamespaceImport(named)) {
+    bindings.namespaces.add(named.name.text);
+  } else if (named) {
+    for (const element of named.elements) {
+      if (!element.isTypeOnly) {
+        const imported = (element.propertyName ?? element.name).text;
+        bindings.imports.set(element.name.text, imported);
+      }
+    }
+  }
+}
+
+function collectDeclaration(
+  node: ts.VariableDeclaration,
+  modules: readonly string[],
+  bindings: FileBindings
+): void {
+  if (!node.initializer) {
+    return;
+  }
+
+  const required = getRequiredModule(node.initializer);
+  if (required !== undefined) {
+    if (!isSourceModule(required, modules)) {
+      return;
+    }
+    if (ts.isIdentifier(node.name)) {
+      bindings.namespaces.add(node.name.text);
+    } else if (ts.isObjectBindingPattern(node.name)) {
+      for (const element of node.name.elements) {
+        const imported = element.propertyName ?? element.name;
+        if (ts.isIdentifier(imported) && ts.isIdentifier(element.name)) {
+          bindings.imports.set(element.name.text, imported.text);
+        }
+      }
+    }
+    return;
+  }
+
+  if (ts.isIdentifier(node.name) && ts.isCallExpression(node.initializer)) {
+    const creator = getLibraryExport(node.initializer.expression, bindings);
+    if (creator === "createErrorFactory") {
+      bindings.factories.add(node.name.text);
+    } else if (creator === "defineErrorCatalog") {
+      bindings.catalogs.add(node.name.text);
+    }
+  }
+}
+
+/**
+ * Find what the library is bound to in a file
+ *
+ * Declarations are visited in source order, so factories are recognized
+ * after the import of the function that creates them.
+ */
+function collectBindings(
+  sourceFile: ts.SourceFile,
+  modules: readonly string[]
+): FileBindings {
+  const bindings: FileBindings = {
+    imports: new Map(),
+    namespaces: new Set(),
+    factories: new Set(),
+    catalogs: new Set(),
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      collectImport(node, modules, bindings);
+      return;
+    }
+    if (ts.isVariableDeclaration(node)) {
+      collectDeclaration(node, modules, bindings);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return bindings;
+}
+
+function getCalleeName(call: ts.CallExpression): string | undefined {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) {
+    return callee.text;
+  }
+  if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Where the function a call targets accepts its source, if it is a target
+ */
+function getCallTarget(
+  call: ts.CallExpression,
+  bindings: FileBindings,
+  targets: Readonly<Record<string, SourceInjectionTarget>>
+): SourceInjectionTarget | undefined {
+  const callee = call.expression;
+
+  const exported = getLibraryExport(callee, bindings);
+  if (
+    exported !== undefined &&
+    Object.prototype.hasOwnProperty.call(DEFAULT_SOURCE_TARGETS, exported)
+  ) {
+    return DEFAULT_SOURCE_TARGETS[exported];
+  }
+  if (ts.isIdentifier(callee) && bindings.factories.has(callee.text)) {
+    return FACTORY_TARGET;
+  }
+
+  // Catalog.factories.Name(params, options)
+  if (
+    ts.isPropertyAccessExpression(callee) &&
+    ts.isPropertyAccessExpression(callee.expression) &&
+    callee.expression.name.text === "factories" &&
+    ts.isIdentifier(callee.expression.expression) &&
+    bindings.catalogs.has(callee.expression.expression.text)
+  ) {
+    return CATALOG_FACTORY_TARGET;
+  }
+
+  // Custom targets are matched by name
+  const name = getCalleeName(call);
+  return name !== undefined &&
+    Object.prototype.hasOwnProperty.call(targets, name)
+    ? targets[name]
+    : undefined;
+}
+
+function hasSourceProperty(literal: ts.ObjectLiteralExpression): boolean {
+  return literal.properties.some(
+    (property) =>
+      (ts.isPropertyAssignment(property) ||
+        ts.isShorthandPropertyAssignment(property)) &&
+      ts.isIdentifier(property.name) &&
+      property.name.text === "source"
+  );
+}
+
+function planInjection(
+  call: ts.CallExpression,
+  target: SourceInjectionTarget
+): InjectionPlan | undefined {
+  const args = call.arguments;
+  if (args.some(ts.isSpreadElement)) {
+    return undefined;
+  }
+
+  if (args.length > target.index) {
+    const arg = args[target.index];
+    // Only literal options objects are rewritten; explicit sources win
+    return target.kind === "options" &&
+      ts.isObjectLiteralExpression(arg) &&
+      !hasSourceProperty(arg)
+      ? { kind: "property", index: target.index, literal: arg }
+      : undefined;
+  }
+
+  return {
+    kind: "append",
+    padding: target.index - args.length,
+    asOptions: target.kind === "options",
+  };
+}
+
+function formatSource(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+  rootDir: string | undefined
+): string {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile)
+  );
+  const file = rootDir
+    ? path.relative(rootDir, sourceFile.fileName).split(path.sep).join("/")
+    : path.basename(sourceFile.fileName);
+  return `${file}:${line + 1}:${character + 1}`;
+}
+
+/**
+ * Find the injection plan for a call, if it targets a known function
+ */
+function planCall(
+  call: ts.CallExpression,
+  bindings: FileBindings,
+  targets: Readonly<Record<string, SourceInjectionTarget>>
+): InjectionPlan | undefined {
+  const target = getCallTarget(call, bindings, targets);
+  return target ? planInjection(call, target) : undefined;
+}
+
+/**
+ * Create a TypeScript transformer that injects source locations
+ *
+ * @param options - Extra target functions, modules and path formatting
+ * @returns A `before` transformer factory
+ */
+export function createSourceTransformer(
+  options: SourceInjectionOptions = {}
+): ts.TransformerFactory<ts.SourceFile> {
+  const targets = options.targets ?? {};
+  const modules = options.modules ?? DEFAULT_SOURCE_MODULES;
+
+  return (context) => (sourceFile) => {
+    const { factory } = context;
+    const bindings = collectBindings(sourceFile, modules);
+
+    const visitor = (node: ts.Node): ts.Node => {
+      const visited = ts.visitEachChild(node, visitor, context);
+      const plan =
+        ts.isCallExpression(node) && planCall(node, bindings, targets);
+      if (!plan || !ts.isCallExpression(visited)) {
+        return visited;
+      }
+
+      const source = factory.createStringLiteral(
+        formatSource(sourceFile, node, options.rootDir)
+      );
+      const sourceProperty = factory.createPropertyAssignment("source", source);
+      const args = [...visited.arguments];
+
+      if (plan.kind === "property") {
+        const literal = args[plan.index] as ts.ObjectLiteralExpression;
+        // Listed first so spread properties can still override it
+        args[plan.index] = factory.updateObjectLiteralExpression(literal, [
+          sourceProperty,
+          ...literal.properties,
+        ]);
+      } else {
+        for (let i = 0; i < plan.padding; i++) {
+          args.push(factory.createIdentifier("undefined"));
+        }
+        args.push(
+          plan.asOptions
+            ? factory.createObjectLiteralExpression([sourceProperty])
+            : source
+        );
+      }
+
+      return factory.updateCallExpression(
+        visited,
+        visited.expression,
+        visited.typeArguments,
+        args
+      );
+    };
+
+    return ts.visitNode(sourceFile, visitor) as ts.SourceFile;
+  };
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  if (/\.[cm]?js$/.test(fileName)) return ts.ScriptKind.JS;
+  if (/\.jsx$/.test(fileName)) return ts.ScriptKind.JSX;
+  if (/\.tsx$/.test(fileName)) return ts.ScriptKind.TSX;
+  return ts.ScriptKind.TS;
+}
+
+/**
+ * Inject source locations into source text
+ *
+ * Edits are inserted in place, so line numbers and the rest of the code are
+ * unchanged. Used by bundler plugins that work on text.
+ *
+ * @param code - TypeScript or JavaScript source
+ * @param fileName - Path of the file, used for the injected locations
+ * @param options - Extra target functions, modules and path formatting
+ * @returns The code with source locations injected
+ */
+export function injectSourceLocations(
+  code: string,
+  fileName: string,
+  options: SourceInjectionOptions = {}
+): string {
+  const targets = options.targets ?? {};
+  const modules = options.modules ?? DEFAULT_SOURCE_MODULES;
+  if (
+    ![...modules, ...Object.keys(targets)].some((name) => code.includes(name))
+  ) {
+    return code;
+  }
+
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  );
+
+  const bindings = collectBindings(sourceFile, modules);
+  const edits: Array<{ position: number; text: string }> = [];
+
+  const visit = (node: ts.Node): void => {
+    const plan =
+      ts.isCallExpression(node) && planCall(node, bindings, targets);
+    if (plan) {
+      const call = node as ts.CallExpression;
+      const source = formatSource(sourceFile, call, options.rootDir);
+      const sourceProperty = `source: ${JSON.stringify(source)}`;
+
+      if (plan.kind === "property") {
+        // Inserted right after the opening brace
+        edits.push({
+          position: plan.literal.getStart(sourceFile) + 1,
+          text:
+            plan.literal.properties.length > 0
+              ? ` ${sourceProperty},`
+              : ` ${sourceProperty} `,
+        });
+      } else {
+        const args = call.arguments;
+        const values = [
+          ...Array.from({ length: plan.padding }, () => "undefined"),
+          plan.asOptions ? `{ ${sourceProperty} }` : JSON.stringify(source),
+        ];
+        const separator =
+          args.length === 0 ? "" : args.hasTrailingComma ? " " : ", ";
+        edits.push({ position: args.end, text: separator + values.join(", ") });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Apply from the end so earlier positions stay valid
+  return edits
+    .sort((a, b) => b.position - a.position)
+    .reduce(
+      (result, edit) =>
+        result.slice(0, edit.position) +
+        edit.text +
+        result.slice(edit.position),
+      code
+    );
+}
+
+/**
+ * Default export for ts-patch / ttypescript style plugin configuration
+ */
+export default function sourceTransformer(
+  _program?: ts.Program,
+  options?: SourceInjectionOptions
+): ts.TransformerFactory<ts.SourceFile> {
+  return createSourceTransformer(options);
+}
@@ -48,6 +48,18 @@ export interface TryError<T extends string = string> {
    * The original error or thrown value that caused this error
    */
   readonly cause?: unknown;
+
+  /**
+   * Set when the context exceeded `performance.contextCapture.maxContextSize`
+   * and was truncated
+   */
+  readonly contextTruncated?: boolean;
+
+  /**
+   * How many times this error was created within its `dedupeWindow`.
+   * Set on the representative error that repeats share.
+   */
+  readonly occurrences?: number;
 }
 
 /**
@@ -112,6 +124,40 @@ export function isTryError<E extends TryError = TryError>(
   return true;
 }
 
+/**
+ * A TryError grouping several failures
+ * Produced by `tryAll`/`tryAllAsync` with `collectAll` and by `combineErrors`
+ */
+export interface AggregateTryError<
+  E extends TryError = TryError,
+  T extends string = string
+> extends TryError<T> {
+  /**
+   * The individual errors, in the order they were collected
+   */
+  readonly errors: readonly E[];
+}
+
+/**
+ * Type guard to check if a value is an AggregateTryError
+ *
+ * Aggregates hold at least one error, so TryErrors that happen to carry an
+ * empty `errors` array (e.g. domain fields) don't match.
+ */
+export function isAggregateTryError<E extends TryError = TryError>(
+  value: unknown
+): value is AggregateTryError<E> {
+  if (!isTryError(value)) {
+    return false;
+  }
+  const errors = (value as { errors?: unknown }).errors;
+  return (
+    Array.isArray(errors) &&
+    errors.length > 0 &&
+    errors.every((error) => isTryError(error))
+  );
+}
+
 /**
  * Type predicate to narrow a TryResult to its success type
  *
@@ -176,66 +222,692 @@ export function unwrapTryResult<T, E extends TryError>(
 }
 
 /**
- * Safe JSON stringification that handles circular references
+ * Current version of the serialized TryError envelope
+ * Bumped whenever the wire format changes incompatibly
  */
-function safeStringify(obj: any): any {
-  const seen = new WeakSet();
+export const TRY_ERROR_SCHEMA_VERSION = 1;
 
-  const replacer = (key: string, value: any): any => {
-    if (typeof value === "object" && value !== null) {
-      if (seen.has(value)) {
-        return "[Circular]";
-      }
-      seen.add(value);
+/**
+ * Native error constructors that can be revived by name
+ */
+const NATIVE_ERROR_CONSTRUCTORS: Record<
+  string,
+  new (message?: string) => Error
+> = {
+  Error,
+  TypeError,
+  RangeError,
+  SyntaxError,
+  ReferenceError,
+  EvalError,
+  URIError,
+};
+
+/**
+ * Encode the own enumerable properties of an object
+ * Functions and symbols are dropped, as in JSON
+ */
+function encodeProperties(
+  obj: object,
+  keys: string[],
+  ancestors: Set<object>
+): Record<string, unknown> {
+  const encoded: Record<string, unknown> = {};
+  for (const key of keys) {
+    const value = encodeValue(
+      (obj as Record<string, unknown>)[key],
+      ancestors
+    );
+    if (value !== undefined) {
+      encoded[key] = value;
     }
-    return value;
+  }
+  return encoded;
+}
+
+/**
+ * Encode a TryError as a versioned envelope
+ */
+function encodeTryError(
+  error: TryError,
+  ancestors: Set<object>
+): Record<string, unknown> {
+  // Unset optional fields are omitted rather than tagged to keep payloads small
+  const keys = Object.keys(error).filter(
+    (key) => (error as unknown as Record<string, unknown>)[key] !== undefined
+  );
+
+  return {
+    ...encodeProperties(error, keys, ancestors),
+    __tryError: true, // Marker for deserialization
+    __version: TRY_ERROR_SCHEMA_VERSION,
   };
+}
+
+/**
+ * Encode a native Error, keeping its name, stack, cause and custom fields
+ */
+function encodeNativeError(
+  error: Error,
+  ancestors: Set<object>
+): Record<string, unknown> {
+  const keys = Object.keys(error).filter(
+    (key) => key !== "name" && key !== "message" && key !== "stack"
+  );
+
+  // `cause` and AggregateError `errors` are usually non-enumerable
+  for (const key of ["cause", "errors"]) {
+    if (
+      Object.prototype.hasOwnProperty.call(error, key) &&
+      !keys.includes(key)
+    ) {
+      keys.push(key);
+    }
+  }
+
+  return {
+    __type: "Error",
+    name: error.name,
+    message: error.message,
+    ...(error.stack !== undefined && { stack: error.stack }),
+    props: encodeProperties(error, keys, ancestors),
+  };
+}
+
+/**
+ * Encode any value into JSON-safe form
+ * Values JSON cannot represent are tagged with `__type`
+ */
+function encodeValue(value: unknown, ancestors: Set<object>): unknown {
+  if (value === undefined) {
+    return { __type: "Undefined" };
+  }
+
+  if (typeof value === "bigint") {
+    return { __type: "BigInt", value: value.toString() };
+  }
+
+  if (typeof value === "number") {
+    if (Object.is(value, -0)) {
+      return { __type: "Number", value: "-0" };
+    }
+    return Number.isFinite(value)
+      ? value
+      : { __type: "Number", value: String(value) };
+  }
+
+  if (typeof value === "function" || typeof value === "symbol") {
+    return undefined;
+  }
+
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  if (ancestors.has(value)) {
+    return "[Circular]";
+  }
+
+  ancestors.add(value);
+  try {
+    if (isTryError(value)) {
+      return encodeTryError(value, ancestors);
+    }
+
+    if (value instanceof Date) {
+      return {
+        __type: "Date",
+        value: isNaN(value.getTime()) ? null : value.toISOString(),
+      };
+    }
+
+    if (value instanceof Error) {
+      return encodeNativeError(value, ancestors);
+    }
+
+    if (value instanceof Map) {
+      return {
+        __type: "Map",
+        value: Array.from(value, ([key, entry]) => [
+          encodeValue(key, ancestors),
+          encodeValue(entry, ancestors),
+        ]),
+      };
+    }
+
+    if (value instanceof Set) {
+      return {
+        __type: "Set",
+        value: Array.from(value, (entry) => encodeValue(entry, ancestors)),
+      };
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((entry) => encodeValue(entry, ancestors) ?? null);
+    }
+
+    if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+      return encodeValue((value as { toJSON(): unknown }).toJSON(), ancestors);
+    }
+
+    const encoded = encodeProperties(value, Object.keys(value), ancestors);
+
+    // Escape objects that would otherwise be mistaken for tagged values
+    return "__type" in encoded ? { __type: "Object", value: encoded } : encoded;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * How nested values of a payload are decoded
+ */
+interface DecodeSettings {
+  /**
+   * Limits of a safe deserialization, or null for trusted input
+   */
+  readonly limits: typeof DEFAULT_SAFE_LIMITS | null;
+
+  /**
+   * Whether registered revivers validate decoded errors
+   */
+  readonly revive: boolean;
+}
+
+/**
+ * Decode the properties of a plain encoded object
+ */
+function decodeProperties(
+  obj: Record<string, unknown>,
+  settings: DecodeSettings
+): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const key of Object.keys(obj)) {
+    decoded[key] = decodeValue(obj[key], settings);
+  }
+  return decoded;
+}
+
+/**
+ * Revive a native Error encoded by encodeNativeError
+ */
+function decodeNativeError(
+  obj: Record<string, unknown>,
+  settings: DecodeSettings
+): Error {
+  const name = typeof obj.name === "string" ? obj.name : "Error";
+  const Constructor = Object.prototype.hasOwnProperty.call(
+    NATIVE_ERROR_CONSTRUCTORS,
+    name
+  )
+    ? NATIVE_ERROR_CONSTRUCTORS[name]
+    : Error;
+  const error = new Constructor(
+    typeof obj.message === "string" ? obj.message : ""
+  );
+
+  if (error.name !== name) {
+    Object.defineProperty(error, "name", {
+      value: name,
+      writable: true,
+      configurable: true,
+    });
+  }
+  if (typeof obj.stack === "string") {
+    error.stack = obj.stack;
+  }
+  if (typeof obj.props === "object" && obj.props !== null) {
+    Object.assign(
+      error,
+      decodeProperties(obj.props as Record<string, unknown>, settings)
+    );
+  }
+
+  return error;
+}
+
+/**
+ * Decode a value produced by encodeValue
+ * Nested TryErrors (causes, aggregate members) are decoded with the same
+ * settings as the top-level error
+ */
+function decodeValue(value: unknown, settings: DecodeSettings): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => decodeValue(entry, settings));
+  }
+
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  const obj = value as Record<string, unknown>;
+
+  if (obj.__tryError === true) {
+    const revived = decodeTryError(obj, settings);
+    if (revived) {
+      return revived;
+    }
+  }
+
+  switch (obj.__type) {
+    case "Undefined":
+      return undefined;
+    case "BigInt":
+      return BigInt(obj.value as string);
+    case "Number":
+      return Number(obj.value);
+    case "Date":
+      return new Date(obj.value === null ? NaN : (obj.value as string));
+    case "Map":
+      return new Map(
+        (obj.value as [unknown, unknown][]).map(([key, entry]) => [
+          decodeValue(key, settings),
+          decodeValue(entry, settings),
+        ])
+      );
+    case "Set":
+      return new Set(
+        (obj.value as unknown[]).map((entry) => decodeValue(entry, settings))
+      );
+    case "Error":
+      return decodeNativeError(obj, settings);
+    case "Object":
+      return decodeProperties(obj.value as Record<string, unknown>, settings);
+    default:
+      return decodeProperties(obj, settings);
+  }
+}
+
+/**
+ * Validates a deserialized error of a registered type
+ * Returns the problems found; an empty array means the error is valid
+ */
+export type ErrorReviver = (error: TryError) => string[];
+
+/**
+ * Error returned by deserializeTryError when a registered type fails validation
+ * The decoded (unvalidated) error is kept as the cause
+ */
+export interface DeserializationError
+  extends TryError<"DeserializationError"> {
+  /**
+   * The type of the error that failed validation
+   */
+  readonly errorType: string;
+
+  /**
+   * What the reviver found missing or invalid
+   */
+  readonly issues: readonly string[];
+}
+
+// Revivers keyed by error type
+const reviverRegistry = new Map<string, ErrorReviver>();
+
+/**
+ * Register a reviver that validates errors of the given types on deserialization
+ *
+ * @param types - Error type or types handled by the reviver
+ * @param reviver - Validation rules for the error's domain fields
+ *
+ * @example
+ * ```typescript
+ * registerErrorReviver(["UserNotFound", "UserSuspended"], entityErrorReviver);
+ *
+ * const error = deserializeTryError<UserErrorType, UserError>(payload, {
+ *   revive: true,
+ * });
+ * // UserError, or a DeserializationError if entityId/entityType are missing
+ * ```
+ */
+export function registerErrorReviver(
+  types: string | readonly string[],
+  reviver: ErrorReviver
+): void {
+  for (const type of typeof types === "string" ? [types] : types) {
+    reviverRegistry.set(type, reviver);
+  }
+}
 
+/**
+ * Register a reviver for a type unless one is already registered
+ * @internal
+ */
+export function registerDefaultErrorReviver(
+  type: string,
+  reviver: ErrorReviver
+): void {
+  if (!reviverRegistry.has(type)) {
+    reviverRegistry.set(type, reviver);
+  }
+}
+
+/**
+ * Remove the reviver registered for an error type
+ *
+ * @returns True if a reviver was removed
+ */
+export function unregisterErrorReviver(type: string): boolean {
+  return reviverRegistry.delete(type);
+}
+
+/**
+ * Check if a value is a DeserializationError
+ */
+export function isDeserializationError(
+  value: unknown
+): value is DeserializationError {
+  return isTryError(value) && value.type === "DeserializationError";
+}
+
+/**
+ * Run the registered reviver for a decoded error, if any
+ */
+function reviveTryError(error: TryError): TryError {
+  const reviver = reviverRegistry.get(error.type);
+  if (!reviver) {
+    return error;
+  }
+
+  let issues: string[];
   try {
-    // Use JSON.parse(JSON.stringify()) with replacer to handle circular references
-    return JSON.parse(JSON.stringify(obj, replacer));
-  } catch (error) {
-    // Fallback for any other serialization errors
-    return "[Unstringifiable]";
+    issues = reviver(error);
+  } catch (reviverError) {
+    issues = [
+      reviverError instanceof Error
+        ? reviverError.message
+        : String(reviverError),
+    ];
   }
+
+  if (issues.length === 0) {
+    return error;
+  }
+
+  const deserializationError: DeserializationError = {
+    [TRY_ERROR_BRAND]: true,
+    type: "DeserializationError",
+    message: `Cannot revive ${error.type}: ${issues.join("; ")}`,
+    source: "deserializeTryError",
+    timestamp: Date.now(),
+    cause: error,
+    errorType: error.type,
+    issues,
+  };
+  return deserializationError;
+}
+
+// Serialization-mode redaction, set by configure() so that this module
+// doesn't depend on the config
+let outputRedactor: (<E extends TryError>(error: E) => E) | undefined;
+
+/**
+ * Set the redaction applied by serializeTryError
+ * @internal
+ */
+export function setOutputRedactor(
+  redactor: (<E extends TryError>(error: E) => E) | undefined
+): void {
+  outputRedactor = redactor;
 }
 
 /**
  * Serialize a TryError to a JSON-safe format
- * Removes the Symbol property and converts to a plain object
- * Handles circular references in context
+ *
+ * Produces a versioned envelope (`__version`) that round-trips nested TryError
+ * causes, native Errors, Date, Map, Set, bigint and undefined values.
+ * Circular references are replaced with "[Circular]". The configured
+ * `redact` policy is applied before encoding.
  */
 export function serializeTryError<E extends TryError>(
   error: E
 ): Record<string, unknown> {
-  const { [TRY_ERROR_BRAND]: _, ...serializable } = error;
+  const output = outputRedactor ? outputRedactor(error) : error;
+  return encodeTryError(output, new Set<object>([output]));
+}
 
-  // Handle circular references in context and other properties
-  const safeSerializable = safeStringify(serializable);
+/**
+ * Limits applied when deserializing untrusted input
+ */
+export interface SafeDeserializeOptions {
+  /**
+   * Maximum payload size in characters (JSON string length, or total
+   * key and string length for object input)
+   * @default 65536
+   */
+  maxSize?: number;
 
-  return {
-    ...safeSerializable,
-    __tryError: true, // Marker for deserialization
-  };
+  /**
+   * Maximum nesting depth of objects and arrays
+   * @default 32
+   */
+  maxDepth?: number;
+
+  /**
+   * Maximum total number of object keys and array items
+   * @default 2000
+   */
+  maxKeys?: number;
+
+  /**
+   * Top-level fields allowed besides the standard TryError fields
+   * (e.g. the domain fields of a revived error)
+   */
+  allowedFields?: readonly string[];
+}
+
+/**
+ * Options for deserializeTryError
+ */
+export interface DeserializeOptions {
+  /**
+   * Treat the input as untrusted: enforce size, depth and key limits,
+   * strip `__proto__`/`constructor`/`prototype` keys, validate the shape of
+   * `context` and `cause`, and reject unknown top-level fields
+   * @default false
+   */
+  safe?: boolean | SafeDeserializeOptions;
+
+  /**
+   * Validate errors of registered types with their revivers, returning a
+   * DeserializationError when domain fields are missing or invalid
+   * @default false
+   */
+  revive?: boolean;
+}
+
+const DEFAULT_SAFE_LIMITS = {
+  maxSize: 65536,
+  maxDepth: 32,
+  maxKeys: 2000,
+  allowedFields: [] as readonly string[],
+};
+
+// Keys that could be used for prototype pollution
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+// Top-level fields of a serialized TryError
+const TRY_ERROR_FIELDS = new Set([
+  "__tryError",
+  "__version",
+  "type",
+  "message",
+  "source",
+  "timestamp",
+  "stack",
+  "context",
+  "cause",
+  "errors",
+  "contextTruncated",
+  "occurrences",
+]);
+
+// Marker for input rejected by sanitizeUntrusted
+const REJECTED = Symbol("rejected");
+
+/**
+ * Copy untrusted JSON data, enforcing limits and dropping forbidden keys
+ * Returns REJECTED if a limit is exceeded or a non-JSON value is found
+ */
+function sanitizeUntrusted(
+  value: unknown,
+  limits: typeof DEFAULT_SAFE_LIMITS,
+  budget: { keys: number; size: number },
+  depth: number
+): unknown {
+  if (
+    value === null ||
+    typeof value === "boolean" ||
+    typeof value === "number"
+  ) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    budget.size += value.length;
+    return budget.size > limits.maxSize ? REJECTED : value;
+  }
+
+  if (typeof value !== "object" || depth >= limits.maxDepth) {
+    return REJECTED;
+  }
+
+  if (Array.isArray(value)) {
+    budget.keys += value.length;
+    if (budget.keys > limits.maxKeys) {
+      return REJECTED;
+    }
+    const copy: unknown[] = [];
+    for (const entry of value) {
+      const sanitized = sanitizeUntrusted(entry, limits, budget, depth + 1);
+      if (sanitized === REJECTED) {
+        return REJECTED;
+      }
+      copy.push(sanitized);
+    }
+    return copy;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return REJECTED; // Only plain JSON objects are accepted
+  }
+
+  const keys = Object.keys(value);
+  budget.keys += keys.length;
+  if (budget.keys > limits.maxKeys) {
+    return REJECTED;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (FORBIDDEN_KEYS.has(key)) {
+      continue;
+    }
+    budget.size += key.length;
+    const sanitized = sanitizeUntrusted(
+      (value as Record<string, unknown>)[key],
+      limits,
+      budget,
+      depth + 1
+    );
+    if (sanitized === REJECTED) {
+      return REJECTED;
+    }
+    copy[key] = sanitized;
+  }
+  return copy;
+}
+
+/**
+ * Check the fields of a decoded untrusted error have allowed shapes
+ */
+function hasAllowedShape(error: TryError): boolean {
+  const { context, cause, stack } = error;
+  const errors = (error as { errors?: unknown }).errors;
+
+  const contextAllowed =
+    context === undefined ||
+    (typeof context === "object" &&
+      context !== null &&
+      Object.getPrototypeOf(context) === Object.prototype);
+
+  const causeAllowed =
+    cause === undefined ||
+    cause === null ||
+    typeof cause === "string" ||
+    typeof cause === "number" ||
+    typeof cause === "boolean" ||
+    isTryError(cause) ||
+    cause instanceof Error;
+
+  const errorsAllowed =
+    errors === undefined ||
+    (Array.isArray(errors) && errors.every((entry) => isTryError(entry)));
+
+  return (
+    contextAllowed &&
+    causeAllowed &&
+    errorsAllowed &&
+    (stack === undefined || typeof stack === "string")
+  );
 }
 
 /**
  * Deserialize a JSON object or string back to a TryError
- * Adds back the Symbol property
- * Handles both parsed objects and JSON strings
+ * Adds back the Symbol property and revives the whole cause chain
+ * Handles both parsed objects and JSON strings, including the
+ * unversioned format produced by earlier releases
+ *
+ * With `{ revive: true }`, errors whose type has a registered reviver are
+ * validated; failures are returned as a DeserializationError instead of the
+ * unvalidated error. Pass the domain error type as `E` to type the revived
+ * error.
+ *
+ * Use `{ safe: true }` for input from untrusted clients.
+ *
+ * @example
+ * ```typescript
+ * const error = deserializeTryError(req.body, {
+ *   safe: { maxSize: 16384, allowedFields: ["entityId", "entityType"] },
+ * });
+ * if (!error) return res.status(400).end();
+ * ```
  */
+export function deserializeTryError<
+  T extends string = string,
+  E extends TryError<T> = TryError<T>
+>(
+  input: Record<string, unknown> | string | null | undefined,
+  options: DeserializeOptions & { revive: true }
+): E | DeserializationError | null;
 export function deserializeTryError<T extends string = string>(
-  input: Record<string, unknown> | string | null | undefined
-): TryError<T> | null {
+  input: Record<string, unknown> | string | null | undefined,
+  options?: DeserializeOptions
+): TryError<T> | null;
+export function deserializeTryError(
+  input: Record<string, unknown> | string | null | undefined,
+  options: DeserializeOptions = {}
+): TryError | null {
   // Handle null/undefined input
   if (input === null || input === undefined) {
     return null;
   }
 
+  const limits = options.safe
+    ? {
+        ...DEFAULT_SAFE_LIMITS,
+        ...(typeof options.safe === "object" && options.safe),
+      }
+    : null;
+
   let obj: Record<string, unknown>;
 
   // Handle string input (JSON string)
   if (typeof input === "string") {
+    if (limits && input.length > limits.maxSize) {
+      return null; // Payload too large
+    }
     try {
       obj = JSON.parse(input);
     } catch (error) {
@@ -247,6 +919,45 @@ export function deserializeTryError<T extends string = string>(
     return null; // Invalid input type
   }
 
+  // Copy untrusted input within limits, dropping dangerous keys
+  if (limits) {
+    const sanitized = sanitizeUntrusted(obj, limits, { keys: 0, size: 0 }, 0);
+    if (
+      sanitized === REJECTED ||
+      typeof sanitized !== "object" ||
+      sanitized === null ||
+      Array.isArray(sanitized)
+    ) {
+      return null;
+    }
+    obj = sanitized as Record<string, unknown>;
+  }
+
+  return decodeTryError(obj, { limits, revive: options.revive === true });
+}
+
+/**
+ * Decode a TryError envelope, running its reviver when enabled
+ * With safe limits, the input has already been sanitized as a whole, so the
+ * size, depth and key budget covers nested causes; the field and shape
+ * checks run here for every error in the chain
+ */
+function decodeTryError(
+  obj: Record<string, unknown>,
+  settings: DecodeSettings
+): TryError | DeserializationError | null {
+  const { limits } = settings;
+  if (limits) {
+    const allowedFields = new Set(limits.allowedFields);
+    if (
+      Object.keys(obj).some(
+        (key) => !TRY_ERROR_FIELDS.has(key) && !allowedFields.has(key)
+      )
+    ) {
+      return null; // Unknown top-level field
+    }
+  }
+
   // Validate the object structure
   if (
     typeof obj === "object" &&
@@ -257,11 +968,37 @@ export function deserializeTryError<T extends string = string>(
     typeof obj.source === "string" &&
     typeof obj.timestamp === "number"
   ) {
-    const { __tryError, ...rest } = obj;
-    return {
-      [TRY_ERROR_BRAND]: true,
-      ...rest,
-    } as TryError<T>;
+    const { __tryError, __version, ...rest } = obj;
+    let decoded: TryError;
+
+    if (__version === undefined) {
+      // Unversioned payloads are plain JSON
+      decoded = {
+        [TRY_ERROR_BRAND]: true,
+        ...rest,
+      } as TryError;
+    } else if (
+      typeof __version !== "number" ||
+      __version > TRY_ERROR_SCHEMA_VERSION
+    ) {
+      // Reject envelopes from newer, unknown schema versions
+      return null;
+    } else {
+      try {
+        decoded = {
+          [TRY_ERROR_BRAND]: true,
+          ...decodeProperties(rest, settings),
+        } as TryError;
+      } catch {
+        return null; // Malformed tagged value
+      }
+    }
+
+    if (limits && !hasAllowedShape(decoded)) {
+      return null;
+    }
+
+    return settings.revive ? reviveTryError(decoded) : decoded;
   }
 
   return null;
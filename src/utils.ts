@@ -5,7 +5,18 @@
  * and operations that developers frequently need.
  */
 
-import { TryError, TryResult, isTryError, TRY_ERROR_BRAND } from "./types";
+import {
+  TryError,
+  TryResult,
+  AggregateTryError,
+  isTryError,
+  isAggregateTryError,
+  TRY_ERROR_BRAND,
+} from "./types";
+import { ThrownConstructor } from "./classify";
+import { formatMessage, getLocaleMessage } from "./messages";
+import { getConfig } from "./config";
+import { redactForOutput } from "./redact";
 
 // ============================================================================
 // STAGE 1 IMPROVEMENTS - BETTER ERROR HANDLING PATTERNS
@@ -146,32 +157,83 @@ export function isErrorOfType(
  * }
  * ```
  */
-export function isErrorOfTypes(
+export function isErrorOfTypes<K extends string>(
   value: unknown,
-  errorTypes: string[]
-): value is TryError {
-  return isTryError(value) && errorTypes.includes(value.type);
+  errorTypes: readonly K[]
+): value is TryError<K> {
+  return (
+    isTryError(value) &&
+    (errorTypes as readonly string[]).includes(value.type)
+  );
+}
+
+/**
+ * Handlers keyed by error type, each receiving the matching variant
+ * Used by `recover` and `recoverAsync`
+ */
+export type ErrorTypeHandlers<E extends TryError, R = unknown> = {
+  readonly [K in E["type"]]?: (error: Extract<E, { type: K }>) => R;
+};
+
+/**
+ * Error variants left over after handling the types keyed in `H`
+ */
+export type UnhandledErrors<E extends TryError, H> = Exclude<
+  E,
+  { type: keyof H }
+>;
+
+/**
+ * Union of the values returned by a set of error type handlers
+ */
+export type HandledResult<H> = {
+  [K in keyof H]: H[K] extends (...args: any[]) => infer R ? R : never;
+}[keyof H];
+
+/**
+ * Options for resolving an error message
+ */
+export interface GetErrorMessageOptions {
+  /**
+   * Locale to translate TryError messages into (see `registerLocale`)
+   */
+  locale?: string;
+
+  /**
+   * Fallback message if the value is not an error
+   * @default "Unknown error"
+   */
+  fallback?: string;
 }
 
 /**
  * Extract error message with fallback
  *
+ * With a locale, TryError messages are resolved from the registered locale
+ * catalogs by error type and filled from the error's context.
+ *
  * @param value - Value that might be an error
- * @param fallback - Fallback message if not an error
+ * @param options - Fallback message, or options with locale and fallback
  * @returns Error message or fallback
  *
  * @example
  * ```typescript
  * const message = getErrorMessage(result, "Unknown error occurred");
  * console.error(message);
+ *
+ * const localized = getErrorMessage(result, { locale: "de" });
  * ```
  */
 export function getErrorMessage(
   value: unknown,
-  fallback: string = "Unknown error"
+  options: string | GetErrorMessageOptions = "Unknown error"
 ): string {
+  const { locale, fallback = "Unknown error" } =
+    typeof options === "string" ? { fallback: options } : options;
+
   if (isTryError(value)) {
-    return value.message;
+    const template = locale && getLocaleMessage(value.type, locale);
+    return template ? formatMessage(template, value.context) : value.message;
   }
   if (value instanceof Error) {
     return value.message;
@@ -378,7 +440,7 @@ export function partitionResults<T, E extends TryError>(
  * @param errors - Array of errors to combine
  * @param type - Type for the combined error
  * @param message - Message for the combined error
- * @returns A single error containing all the individual errors
+ * @returns An AggregateTryError carrying the individual errors in `errors`
  *
  * @example
  * ```typescript
@@ -391,8 +453,8 @@ export function combineErrors<E extends TryError>(
   errors: E[],
   type: string,
   message: string
-): TryError {
-  return createEnhancedError(type, message, {
+): AggregateTryError<E> {
+  const combined = createEnhancedError(type, message, {
     context: {
       errorCount: errors.length,
       errors: errors.map((error) => ({
@@ -402,6 +464,8 @@ export function combineErrors<E extends TryError>(
       })),
     },
   });
+
+  return { ...combined, errors: [...errors] };
 }
 
 /**
@@ -427,27 +491,184 @@ export function getErrorSummary(errors: TryError[]): Record<string, number> {
   return summary;
 }
 
+// ============================================================================
+// CAUSE CHAIN UTILITIES
+// ============================================================================
+
+/**
+ * Read the `cause` of a TryError or native Error, if any
+ */
+function getDirectCause(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || !("cause" in value)) {
+    return undefined;
+  }
+  return (value as { cause?: unknown }).cause;
+}
+
+/**
+ * Read the aggregated errors of an AggregateError-like value, if any
+ */
+function getAggregatedErrors(value: unknown): readonly unknown[] {
+  if (!(value instanceof Error) && !isTryError(value)) {
+    return [];
+  }
+  const errors = (value as { errors?: unknown }).errors;
+  return Array.isArray(errors) ? errors : [];
+}
+
+/**
+ * Flatten an error and everything it was caused by into a list
+ *
+ * Follows `cause` links on TryErrors and native Errors, and descends into
+ * the `errors` of AggregateErrors (depth-first, after the aggregate's own
+ * cause). Each value appears once, so cyclic chains terminate.
+ *
+ * @param error - Error to start from (included as the first entry)
+ * @returns The error followed by its causes
+ *
+ * @example
+ * ```typescript
+ * const chain = getCauseChain(error);
+ * chain.forEach((cause) => console.error(cause));
+ * ```
+ */
+export function getCauseChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  const seen = new Set<unknown>();
+
+  const visit = (value: unknown): void => {
+    if (value === undefined || seen.has(value)) {
+      return;
+    }
+    seen.add(value);
+    chain.push(value);
+
+    visit(getDirectCause(value));
+    for (const aggregated of getAggregatedErrors(value)) {
+      visit(aggregated);
+    }
+  };
+
+  visit(error);
+  return chain;
+}
+
+/**
+ * Find the first error in a cause chain with a given TryError type or constructor
+ *
+ * @param error - Error to start from (checked first)
+ * @param typeOrConstructor - TryError `type` or a constructor to match with `instanceof`
+ * @returns The first matching error, or undefined
+ *
+ * @example
+ * ```typescript
+ * const network = findCause(error, "NetworkError");
+ * const syntax = findCause(error, SyntaxError);
+ * ```
+ */
+export function findCause<K extends string>(
+  error: unknown,
+  type: K
+): TryError<K> | undefined;
+export function findCause<C extends ThrownConstructor>(
+  error: unknown,
+  constructor: C
+): InstanceType<C> | undefined;
+export function findCause(
+  error: unknown,
+  typeOrConstructor: string | ThrownConstructor
+): unknown {
+  return getCauseChain(error).find((cause) =>
+    typeof typeOrConstructor === "string"
+      ? isTryError(cause) && cause.type === typeOrConstructor
+      : cause instanceof typeOrConstructor
+  );
+}
+
+/**
+ * Get the deepest error reachable through `cause` links
+ *
+ * Only `cause` is followed; the members of an AggregateError are separate
+ * branches and are not considered the root. Cycles stop at the last
+ * unvisited error.
+ *
+ * @param error - Error to start from
+ * @returns The root cause, or the error itself if it has no cause
+ *
+ * @example
+ * ```typescript
+ * const root = getRootCause(error);
+ * console.error("Root cause:", root);
+ * ```
+ */
+export function getRootCause(error: unknown): unknown {
+  const seen = new Set<unknown>([error]);
+  let current = error;
+  let cause = getDirectCause(current);
+
+  while (cause !== undefined && !seen.has(cause)) {
+    seen.add(cause);
+    current = cause;
+    cause = getDirectCause(current);
+  }
+
+  return current;
+}
+
+/**
+ * Describe a single link of a cause chain on one line
+ */
+function describeCause(cause: unknown): string {
+  if (isTryError(cause)) {
+    return `[${cause.type}] ${cause.message} (${cause.source})`;
+  }
+  if (cause instanceof Error) {
+    return `${cause.name}: ${cause.message}`;
+  }
+  return String(cause);
+}
+
 // ============================================================================
 // DEBUGGING UTILITIES
 // ============================================================================
 
+/**
+ * Options for formatting errors for logs and reports
+ */
+export interface FormatErrorOptions {
+  /**
+   * Include the stack trace
+   */
+  includeStack?: boolean;
+
+  /**
+   * Render every cause (see getCauseChain) instead of only the direct cause
+   */
+  includeCauseChain?: boolean;
+}
+
 /**
  * Format an error for logging with all context
  * Uses efficient string building
  *
  * @param error - Error to format
- * @param includeStack - Whether to include stack trace
+ * @param options - Whether to include the stack trace, or formatting options
  * @returns Formatted error string
  *
  * @example
  * ```typescript
  * console.error(formatErrorForLogging(error, true));
+ * console.error(formatErrorForLogging(error, { includeCauseChain: true }));
  * ```
  */
 export function formatErrorForLogging(
-  error: TryError,
-  includeStack: boolean = false
+  input: TryError,
+  options: boolean | FormatErrorOptions = false
 ): string {
+  const { includeStack = false, includeCauseChain = false } =
+    typeof options === "boolean" ? { includeStack: options } : options;
+  const error = redactForOutput(input, getConfig().redact);
+
   // Use template literal for efficient string building
   let result = `[${error.type}] ${error.message}\nSource: ${
     error.source
@@ -457,10 +678,23 @@ export function formatErrorForLogging(
     result += `\nContext: ${JSON.stringify(error.context, null, 2)}`;
   }
 
-  if (error.cause) {
+  if (includeCauseChain) {
+    const causes = getCauseChain(error).slice(1);
+    if (causes.length > 0) {
+      result += `\nCause chain:${causes
+        .map((cause, index) => `\n  ${index + 1}. ${describeCause(cause)}`)
+        .join("")}`;
+    }
+  } else if (error.cause) {
     result += `\nCause: ${error.cause}`;
   }
 
+  if (isAggregateTryError(error)) {
+    result += `\nErrors (${error.errors.length}):${error.errors
+      .map((entry, index) => `\n  ${index + 1}. ${describeCause(entry)}`)
+      .join("")}`;
+  }
+
   if (includeStack && error.stack) {
     result += `\nStack: ${error.stack}`;
   }
@@ -472,6 +706,7 @@ export function formatErrorForLogging(
  * Create a simple error report from multiple errors
  *
  * @param errors - Array of errors
+ * @param options - Formatting options (`includeCauseChain` lists each error's causes)
  * @returns Formatted error report
  *
  * @example
@@ -480,11 +715,15 @@ export function formatErrorForLogging(
  * console.error(createErrorReport(errors));
  * ```
  */
-export function createErrorReport(errors: TryError[]): string {
+export function createErrorReport(
+  errors: TryError[],
+  options: Pick<FormatErrorOptions, "includeCauseChain"> = {}
+): string {
   if (errors.length === 0) {
     return "No errors to report";
   }
 
+  const policy = getConfig().redact;
   const summary = getErrorSummary(errors);
   const summaryText = Object.entries(summary)
     .map(([type, count]) => `${type}: ${count}`)
@@ -495,10 +734,21 @@ export function createErrorReport(errors: TryError[]): string {
     `Summary: ${summaryText}`,
     "",
     "Details:",
-    ...errors.map(
-      (error, index) =>
-        `${index + 1}. [${error.type}] ${error.message} (${error.source})`
-    ),
+    ...errors.map((input, index) => {
+      const error = redactForOutput(input, policy);
+      const line = `${index + 1}. [${error.type}] ${error.message} (${
+        error.source
+      })`;
+      if (!options.includeCauseChain) {
+        return line;
+      }
+      return getCauseChain(error)
+        .slice(1)
+        .reduce<string>(
+          (text, cause) => `${text}\n   caused by: ${describeCause(cause)}`,
+          line
+        );
+    }),
   ];
 
   return report.join("\n");
@@ -778,5 +1028,13 @@ export function getErrorFingerprint(
     return typeof value === "object" ? JSON.stringify(value) : String(value);
   });
 
+  // Aggregates are identified by their members, regardless of order
+  if (isAggregateTryError(error)) {
+    const members = error.errors
+      .map((entry) => getErrorFingerprint(entry, fields))
+      .sort();
+    parts.push(`[${members.join(",")}]`);
+  }
+
   return parts.join("|");
 }
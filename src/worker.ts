@@ -0,0 +1,422 @@
+/**
+ * Cross-thread transfer of TryErrors
+ *
+ * `postMessage` uses the structured clone algorithm, which drops symbol
+ * keys - including the TryError brand. These helpers mark errors before
+ * they cross a worker boundary and rebrand them on the other side.
+ */
+
+import { TryError, TryResult, TRY_ERROR_BRAND, isTryError } from "./types";
+import { createError } from "./errors";
+
+/**
+ * Structured-clone friendly form of a TryError
+ */
+export interface TransferableTryError {
+  readonly __tryError: true;
+  readonly type: string;
+  readonly message: string;
+  readonly source: string;
+  readonly timestamp: number;
+  readonly [key: string]: unknown;
+}
+
+function isMarked(value: unknown): value is TransferableTryError {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    obj.__tryError === true &&
+    typeof obj.type === "string" &&
+    typeof obj.message === "string" &&
+    typeof obj.source === "string" &&
+    typeof obj.timestamp === "number"
+  );
+}
+
+function markTryError(
+  error: TryError,
+  seen: Map<object, TransferableTryError>
+): TransferableTryError {
+  const existing = seen.get(error);
+  if (existing) {
+    return existing;
+  }
+
+  const copy: Record<string, unknown> = { __tryError: true };
+  seen.set(error, copy as unknown as TransferableTryError);
+
+  for (const key of Object.keys(error)) {
+    copy[key] = (error as unknown as Record<string, unknown>)[key];
+  }
+  if (isTryError(error.cause)) {
+    copy.cause = markTryError(error.cause, seen);
+  }
+  const errors = (error as unknown as { errors?: unknown }).errors;
+  if (Array.isArray(errors)) {
+    copy.errors = errors.map((entry) =>
+      isTryError(entry) ? markTryError(entry, seen) : entry
+    );
+  }
+
+  return copy as unknown as TransferableTryError;
+}
+
+function rebrand(
+  value: TransferableTryError,
+  seen: Map<object, TryError>
+): TryError {
+  const existing = seen.get(value);
+  if (existing) {
+    return existing;
+  }
+
+  const { __tryError, ...props } = value;
+  const error = { [TRY_ERROR_BRAND]: true, ...props } as Record<
+    string,
+    unknown
+  >;
+  seen.set(value, error as unknown as TryError);
+
+  if (isMarked(error.cause)) {
+    error.cause = rebrand(error.cause, seen);
+  }
+  if (Array.isArray(error.errors)) {
+    error.errors = error.errors.map((entry: unknown) =>
+      isMarked(entry) ? rebrand(entry, seen) : entry
+    );
+  }
+
+  return error as unknown as TryError;
+}
+
+/**
+ * Prepare a TryError for `postMessage`
+ *
+ * Nested TryErrors in `cause` and `errors` are marked as well; everything
+ * else is left to the structured clone algorithm.
+ *
+ * @param error - The error to transfer
+ * @returns A plain object that survives structured cloning
+ *
+ * @example
+ * ```typescript
+ * // worker
+ * parentPort.postMessage(toTransferable(error));
+ * ```
+ */
+export function toTransferable(error: TryError): TransferableTryError {
+  return markTryError(error, new Map());
+}
+
+/**
+ * Rebrand a TryError received through `postMessage`
+ *
+ * @param value - The received message payload
+ * @returns The rebranded TryError, or null if the value is not a transferred TryError
+ *
+ * @example
+ * ```typescript
+ * worker.on("message", (message) => {
+ *   const error = fromTransferable(message);
+ *   if (error) console.log(isTryError(error)); // true
+ * });
+ * ```
+ */
+export function fromTransferable<E extends TryError = TryError>(
+  value: unknown
+): E | null {
+  if (!isMarked(value)) {
+    return null;
+  }
+  return rebrand(value, new Map()) as E;
+}
+
+/**
+ * Message posted back by the worker script
+ */
+type WorkerMessage =
+  | { ok: true; value: unknown }
+  | { ok: false; thrown: ThrownPayload };
+
+type ThrownPayload =
+  | { name: string; message: string; stack?: string }
+  | { tryError: TransferableTryError }
+  | { value: unknown };
+
+/**
+ * Worker-side runtime, kept as plain JavaScript so it can be evaluated
+ * without a bundler. Branded TryErrors are recognised by the brand
+ * symbol's description because the symbol itself is not shared.
+ */
+const WORKER_RUNTIME = `
+const BRAND = "try-error.TryError";
+function isBranded(value) {
+  return typeof value === "object" && value !== null &&
+    Object.getOwnPropertySymbols(value).some(
+      (symbol) => symbol.description === BRAND && value[symbol] === true
+    );
+}
+function mark(value, seen) {
+  if (!isBranded(value)) return value;
+  if (seen.has(value)) return seen.get(value);
+  const copy = { __tryError: true };
+  seen.set(value, copy);
+  for (const key of Object.keys(value)) copy[key] = value[key];
+  copy.cause = mark(value.cause, seen);
+  if (Array.isArray(value.errors)) {
+    copy.errors = value.errors.map((entry) => mark(entry, seen));
+  }
+  return copy;
+}
+function describe(error) {
+  if (isBranded(error)) {
+    return { tryError: mark(error, new Map()) };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { value: error };
+}
+async function run(task, data, post) {
+  try {
+    const value = await task(data);
+    post({ ok: true, value: mark(value, new Map()) });
+  } catch (error) {
+    try {
+      post({ ok: false, thrown: describe(error) });
+    } catch (cloneError) {
+      post({ ok: false, thrown: describe(cloneError) });
+    }
+  }
+}
+`;
+
+/**
+ * Extract "file:line:column" from the first frame of a stack trace
+ */
+function getStackSource(stack: string | undefined): string | undefined {
+  if (!stack) {
+    return undefined;
+  }
+  for (const line of stack.split("\n").slice(1)) {
+    const match =
+      line.match(/\((.*):(\d+):(\d+)\)\s*$/) ??
+      line.match(/at\s+(.*):(\d+):(\d+)\s*$/);
+    if (match) {
+      return `${match[1]}:${match[2]}:${match[3]}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Rebuild an error thrown inside the worker, keeping the worker's stack
+ */
+function fromWorkerThrown(thrown: ThrownPayload): TryError {
+  if ("tryError" in thrown) {
+    return (
+      fromTransferable(thrown.tryError) ??
+      createWorkerError("Worker threw a malformed TryError", thrown.tryError)
+    );
+  }
+
+  if ("value" in thrown) {
+    return createError({
+      type: typeof thrown.value === "string" ? "StringError" : "UnknownError",
+      message:
+        typeof thrown.value === "string"
+          ? thrown.value
+          : "An unknown error occurred",
+      source: "worker",
+      cause: thrown.value,
+      captureStackTrace: false,
+    });
+  }
+
+  const cause = new Error(thrown.message);
+  cause.name = thrown.name;
+  cause.stack = thrown.stack;
+
+  // Setting captureStackTrace also skips the error cache, so each failure
+  // keeps its own worker source and stack
+  const error = createError({
+    type: thrown.name,
+    message: thrown.message,
+    source: getStackSource(thrown.stack) ?? "worker",
+    cause,
+    captureStackTrace: false,
+  });
+  return { ...error, stack: thrown.stack };
+}
+
+function createWorkerError(message: string, cause?: unknown): TryError {
+  return createError({
+    type: "WorkerError",
+    message,
+    source: "worker",
+    cause,
+    captureStackTrace: false,
+  });
+}
+
+function fromWorkerMessage<T>(message: WorkerMessage): TryResult<T, TryError> {
+  if (message.ok) {
+    return (fromTransferable(message.value) ?? message.value) as T;
+  }
+  return fromWorkerThrown(message.thrown);
+}
+
+function isNode(): boolean {
+  return (
+    typeof process !== "undefined" &&
+    typeof process.versions === "object" &&
+    typeof process.versions?.node === "string"
+  );
+}
+
+async function runInNodeWorker<T>(
+  script: string,
+  data: unknown
+): Promise<TryResult<T, TryError>> {
+  // Non-literal specifier keeps browser bundlers from resolving the module
+  const specifier = "worker_threads";
+  const { Worker } = await import(specifier);
+
+  const worker = new Worker(
+    `${script}
+const { parentPort, workerData } = require("worker_threads");
+run(task, workerData, (message) => parentPort.postMessage(message));`,
+    { eval: true, workerData: data }
+  );
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const settle = (result: TryResult<T, TryError>) => {
+      if (settled) return;
+      settled = true;
+      resolve(result);
+      void worker.terminate();
+    };
+
+    worker.once("message", (message: WorkerMessage) =>
+      settle(fromWorkerMessage<T>(message))
+    );
+    worker.once("error", (error: unknown) =>
+      settle(
+        error instanceof Error
+          ? fromWorkerThrown({
+              name: error.name,
+              message: error.message,
+              stack: error.stack,
+            })
+          : createWorkerError("Worker failed", error)
+      )
+    );
+    worker.once("exit", (code: number) =>
+      settle(
+        createWorkerError(
+          `Worker exited with code ${code} before returning a result`
+        )
+      )
+    );
+  });
+}
+
+function runInWebWorker<T>(
+  script: string,
+  data: unknown
+): Promise<TryResult<T, TryError>> {
+  const url = URL.createObjectURL(
+    new Blob(
+      [
+        `${script}
+self.onmessage = (event) =>
+  run(task, event.data, (message) => self.postMessage(message));`,
+      ],
+      { type: "text/javascript" }
+    )
+  );
+  let worker: Worker;
+  try {
+    worker = new Worker(url);
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+
+  return new Promise((resolve) => {
+    const settle = (result: TryResult<T, TryError>) => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      resolve(result);
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) =>
+      settle(fromWorkerMessage<T>(event.data));
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      settle(createWorkerError(event.message || "Worker failed", event.error));
+    };
+    try {
+      worker.postMessage(data);
+    } catch (error) {
+      // e.g. a DataCloneError for data that can't be structured-cloned
+      settle(createWorkerError("Failed to send data to worker", error));
+    }
+  });
+}
+
+/**
+ * Run a function in a worker thread and return its result as a TryResult
+ *
+ * Uses `worker_threads` in Node.js and Web Workers in browsers. The function
+ * is serialized with `toString()`, so it must be self-contained: it cannot
+ * reference variables or imports from the surrounding scope. Errors thrown
+ * or returned by the worker keep their original stack and source, and thrown
+ * TryErrors keep their type and context.
+ *
+ * @param fn - Self-contained function to run in the worker
+ * @param data - Structured-cloneable input passed to the function
+ * @returns The function's result, or a TryError
+ *
+ * @example
+ * ```typescript
+ * const result = await tryInWorker((n: number) => {
+ *   if (n < 0) throw new RangeError("n must be positive");
+ *   const fibonacci = (k: number): number =>
+ *     k < 2 ? k : fibonacci(k - 1) + fibonacci(k - 2);
+ *   return fibonacci(n);
+ * }, 40);
+ *
+ * if (isTryError(result)) {
+ *   console.error(result.type, result.source); // "RangeError", worker location
+ * }
+ * ```
+ */
+export async function tryInWorker<D, T>(
+  fn: (data: D) => T | Promise<T>,
+  data: D
+): Promise<TryResult<Exclude<T, TryError>, TryError>> {
+  const script = `${WORKER_RUNTIME}
+const task = (${fn.toString()});`;
+
+  try {
+    if (isNode()) {
+      return await runInNodeWorker(script, data);
+    }
+    if (
+      typeof Worker !== "undefined" &&
+      typeof Blob !== "undefined" &&
+      typeof URL !== "undefined"
+    ) {
+      return await runInWebWorker(script, data);
+    }
+    return createWorkerError(
+      "No worker implementation is available in this environment"
+    );
+  } catch (error) {
+    return createWorkerError("Failed to start worker", error);
+  }
+}
@@ -6,14 +6,19 @@ import {
   tryMap,
   tryChainAsync,
   tryChain,
+  tryGenAsync,
   tryAllAsync,
   tryAnyAsync,
   tryAnySequential,
   withTimeout,
+  recoverAsync,
   retry,
   TryAsyncOptions,
 } from "../src/async";
 import { isOk, isErr } from "../src/sync";
+import { createError } from "../src/errors";
+import { configure, resetConfig } from "../src/config";
+import { TryError, TryResult } from "../src/types";
 
 // Helper functions for testing
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -284,6 +289,57 @@ describe("Asynchronous Error Handling", () => {
     });
   });
 
+  describe("tryGenAsync", () => {
+    it("should unwrap promises and plain results in sequence", async () => {
+      const result = await tryGenAsync(async function* ($) {
+        const user = yield* $(tryAsync(() => asyncSuccess({ id: "u1" })));
+        const total = yield* $(20 + 22);
+        return `${user.id}:${total}`;
+      });
+
+      expect(isOk(result)).toBe(true);
+      expect(result).toBe("u1:42");
+    });
+
+    it("should short-circuit on the first error", async () => {
+      const second = jest.fn(() => tryAsync(() => asyncSuccess("unused")));
+
+      const result = await tryGenAsync(async function* ($) {
+        yield* $(tryAsync(() => asyncError("Fetch failed")));
+        return yield* $(second());
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.message).toBe("Fetch failed");
+      }
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it("should run finally blocks when short-circuiting", async () => {
+      const cleanup = jest.fn();
+
+      const result = await tryGenAsync(async function* ($) {
+        try {
+          return yield* $(tryAsync(() => asyncError("Fetch failed")));
+        } finally {
+          cleanup();
+        }
+      });
+
+      expect(isErr(result)).toBe(true);
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it("should propagate rejections from the body", async () => {
+      await expect(
+        tryGenAsync(async function* () {
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+    });
+  });
+
   describe("tryChain (sync chainer)", () => {
     it("should chain with sync function", async () => {
       const fetchResult = tryAsync(() => asyncSuccess({ status: 200 }));
@@ -337,6 +393,26 @@ describe("Asynchronous Error Handling", () => {
         expect(results).toEqual([]);
       }
     });
+
+    it("should collect every failure with collectAll", async () => {
+      const results = await tryAllAsync(
+        [
+          tryAsync(() => asyncError("First failed")),
+          tryAsync(() => asyncSuccess(2)),
+          tryAsync(() => asyncError("Third failed")),
+        ],
+        { collectAll: true }
+      );
+
+      expect(isErr(results)).toBe(true);
+      if (isErr(results)) {
+        expect(results.message).toBe("2 of 3 operations failed");
+        expect(results.errors.map((error) => error.message)).toEqual([
+          "First failed",
+          "Third failed",
+        ]);
+      }
+    });
   });
 
   describe("tryAnyAsync", () => {
@@ -470,6 +546,48 @@ describe("Asynchronous Error Handling", () => {
     });
   });
 
+  describe("recoverAsync", () => {
+    type NetworkError = TryError<"NetworkError">;
+    type AuthError = TryError<"AuthError">;
+
+    const failAsync = async (
+      type: "NetworkError" | "AuthError"
+    ): Promise<TryResult<string, NetworkError | AuthError>> =>
+      createError({ type, message: `${type} occurred` }) as
+        | NetworkError
+        | AuthError;
+
+    it("should recover handled error types with async handlers", async () => {
+      const result = await recoverAsync(failAsync("NetworkError"), {
+        NetworkError: async () => {
+          await delay(5);
+          return "cached";
+        },
+      });
+
+      expect(result).toBe("cached");
+    });
+
+    it("should pass unhandled errors through with a narrowed type", async () => {
+      const result = await recoverAsync(failAsync("AuthError"), {
+        NetworkError: () => "cached",
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        const type: "AuthError" = result.type;
+        expect(type).toBe("AuthError");
+      }
+    });
+
+    it("should accept plain results and keep success values", async () => {
+      const result = await recoverAsync(await tryAsync(async () => 42), {
+        Error: () => 0,
+      });
+      expect(result).toBe(42);
+    });
+  });
+
   describe("retry", () => {
     it("should succeed on first attempt", async () => {
       let attempts = 0;
@@ -571,6 +689,66 @@ describe("Asynchronous Error Handling", () => {
     });
   });
 
+  describe("async stack traces", () => {
+    afterEach(() => {
+      resetConfig();
+    });
+
+    async function loadOrder() {
+      return tryAsync(async () => {
+        await delay(1);
+        throw new Error("order service down");
+      });
+    }
+
+    async function handleRequest() {
+      return retry(() => loadOrder(), { attempts: 1 });
+    }
+
+    it("should append the chain of async call sites when enabled", async () => {
+      configure({ asyncStackTraces: true });
+
+      const result = await handleRequest();
+
+      expect(isErr(result)).toBe(true);
+      const stack = (result as TryError).stack!;
+      const tryAsyncSection = stack.indexOf("--- tryAsync ---");
+      const retrySection = stack.indexOf("--- retry ---");
+      expect(tryAsyncSection).toBeGreaterThan(0);
+      expect(retrySection).toBeGreaterThan(tryAsyncSection);
+      expect(stack.slice(tryAsyncSection, retrySection)).toContain("loadOrder");
+      expect(stack.slice(retrySection)).toContain("handleRequest");
+    });
+
+    it("should trace tryAwait call sites", async () => {
+      configure({ asyncStackTraces: true });
+
+      const result = await tryAwait(asyncError("await failed"));
+
+      expect((result as TryError).stack).toContain("--- tryAwait ---");
+    });
+
+    it("should leave stacks untouched when disabled", async () => {
+      const result = await handleRequest();
+
+      expect((result as TryError).stack).not.toContain("--- tryAsync ---");
+    });
+
+    it("should be ignored in production", async () => {
+      const originalEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = "production";
+      try {
+        configure({ asyncStackTraces: true, captureStackTrace: true });
+
+        const result = await handleRequest();
+
+        expect((result as TryError).stack ?? "").not.toContain("--- retry ---");
+      } finally {
+        process.env.NODE_ENV = originalEnv;
+      }
+    });
+  });
+
   describe("complex async scenarios", () => {
     it("should handle complex async operation chains", async () => {
       // Simulate API call chain: fetch user -> fetch posts -> process posts
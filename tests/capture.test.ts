@@ -0,0 +1,128 @@
+import { captureContext } from "../src/capture";
+import { configure, resetConfig } from "../src/config";
+import { createError } from "../src/errors";
+import { deserializeTryError, serializeTryError, TryError } from "../src/types";
+
+describe("Context Capture", () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  describe("captureContext", () => {
+    it("should deep clone context within the size limit", () => {
+      const context = { user: { id: 1, tags: ["a", "b"] }, at: new Date(0) };
+
+      const captured = captureContext(context);
+
+      expect(captured.truncated).toBe(false);
+      expect(captured.context).toEqual(context);
+      expect(captured.context).not.toBe(context);
+      expect(captured.context.user).not.toBe(context.user);
+      expect(captured.context.at).not.toBe(context.at);
+    });
+
+    it("should keep the original context when cloning is disabled", () => {
+      const context = { id: 1 };
+
+      const captured = captureContext(context, { deepClone: false });
+
+      expect(captured.context).toBe(context);
+    });
+
+    it("should truncate long strings", () => {
+      const captured = captureContext(
+        { body: "x".repeat(500) },
+        { maxContextSize: 100 }
+      );
+      const body = captured.context.body as string;
+
+      expect(captured.truncated).toBe(true);
+      expect(body).toMatch(/^x+\[Truncated: \d+ chars\]$/);
+      expect(body.length).toBeLessThan(150);
+    });
+
+    it("should truncate arrays and objects with item counts", () => {
+      const rows = Array.from({ length: 1000 }, (_, i) => i);
+      const fields = Object.fromEntries(
+        Array.from({ length: 100 }, (_, i) => [`field${i}`, i])
+      );
+
+      const captured = captureContext(
+        { rows, fields },
+        { maxContextSize: 200 }
+      );
+      const capturedRows = captured.context.rows as unknown[];
+
+      expect(captured.truncated).toBe(true);
+      expect(capturedRows.length).toBeLessThan(rows.length);
+      expect(capturedRows[capturedRows.length - 1]).toBe(
+        `[Truncated: ${rows.length - capturedRows.length + 1} items]`
+      );
+      // The budget ran out before `fields`, so the top level is cut too
+      expect(captured.context["…"]).toBe("[Truncated: 1 keys]");
+      expect(rows).toHaveLength(1000);
+
+      const capturedFields = captureContext(fields, { maxContextSize: 100 })
+        .context;
+      const kept = Object.keys(capturedFields).length - 1;
+      expect(capturedFields["…"]).toBe(`[Truncated: ${100 - kept} keys]`);
+    });
+
+    it("should preserve circular references", () => {
+      const context: Record<string, unknown> = { id: 1 };
+      context.self = context;
+
+      const captured = captureContext(context);
+
+      expect(captured.context.self).toBe(captured.context);
+    });
+  });
+
+  describe("createError", () => {
+    it("should not capture context unless configured", () => {
+      const context = { payload: "y".repeat(20000) };
+      const error = createError({
+        type: "Uncaptured",
+        message: "not captured",
+        context,
+      });
+
+      expect(error.context).toBe(context);
+      expect(error.contextTruncated).toBeUndefined();
+    });
+
+    it("should snapshot context so later mutations don't leak", () => {
+      configure({ performance: { contextCapture: { deepClone: true } } });
+      const context = { attempts: [1] };
+
+      const error = createError({
+        type: "Snapshotted",
+        message: "snapshotted",
+        context,
+      });
+      context.attempts.push(2);
+
+      expect(error.context).toEqual({ attempts: [1] });
+      expect(error.contextTruncated).toBeUndefined();
+    });
+
+    it("should record truncation on the error", () => {
+      configure({ performance: { contextCapture: { maxContextSize: 64 } } });
+
+      const error = createError({
+        type: "Oversized",
+        message: "oversized",
+        context: { items: Array.from({ length: 100 }, (_, i) => `item-${i}`) },
+      });
+
+      expect(error.contextTruncated).toBe(true);
+      expect(JSON.stringify(error.context)).toMatch(/\[Truncated: \d+ items\]/);
+
+      const revived = deserializeTryError(
+        JSON.stringify(serializeTryError(error)),
+        { safe: true }
+      ) as TryError;
+      expect(revived.contextTruncated).toBe(true);
+    });
+  });
+});
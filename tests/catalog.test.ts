@@ -0,0 +1,138 @@
+import {
+  defineErrorCatalog,
+  getErrorDefinition,
+  CatalogErrorUnion,
+} from "../src/catalog";
+import { createError } from "../src/errors";
+import { isTryError } from "../src/types";
+import { configure, resetConfig } from "../src/config";
+import { flushErrorDedupe } from "../src/dedupe";
+
+const AppErrors = defineErrorCatalog({
+  UserNotFound: {
+    code: "E1001",
+    status: 404,
+    severity: "warning",
+    retryable: false,
+    message: "User {id} not found",
+  },
+  UpstreamUnavailable: {
+    code: "E2001",
+    status: 503,
+    severity: "error",
+    retryable: true,
+    message: "Upstream service unavailable",
+  },
+});
+
+type AppError = CatalogErrorUnion<typeof AppErrors>;
+
+describe("Error Catalog", () => {
+  describe("factories", () => {
+    it("should create typed errors from the definition", () => {
+      const error = AppErrors.factories.UserNotFound({ id: "42" });
+
+      expect(isTryError(error)).toBe(true);
+      expect(error.type).toBe("UserNotFound");
+      expect(error.code).toBe("E1001");
+      expect(error.message).toBe("User 42 not found");
+      expect(error.context).toEqual({ id: "42" });
+      expect(error.source).toMatch(/catalog\.test\.ts:\d+:\d+/);
+    });
+
+    it("should accept a cause and extra context", () => {
+      const cause = new Error("connection reset");
+      const error = AppErrors.factories.UpstreamUnavailable(undefined, {
+        cause,
+        context: { service: "billing" },
+      });
+
+      expect(error.cause).toBe(cause);
+      expect(error.context).toEqual({ service: "billing" });
+    });
+
+    it("should include the code when onError sees the error", () => {
+      const codes: unknown[] = [];
+      configure({
+        dedupeWindow: { windowMs: 10_000 },
+        onError: (error) => {
+          codes.push((error as { code?: unknown }).code);
+          return error;
+        },
+      });
+
+      try {
+        const first = AppErrors.factories.UpstreamUnavailable();
+        const second = AppErrors.factories.UpstreamUnavailable();
+
+        expect(codes).toEqual(["E2001"]);
+        expect(second).toBe(first);
+        expect(first.occurrences).toBe(2);
+      } finally {
+        flushErrorDedupe();
+        resetConfig();
+      }
+    });
+
+    it("should require params for message placeholders", () => {
+      // @ts-expect-error - "id" is required by the message template
+      const error = AppErrors.factories.UserNotFound({});
+      expect(error.message).toBe("User {id} not found");
+    });
+  });
+
+  describe("guards", () => {
+    it("should narrow to a single catalog error", () => {
+      const errors: AppError[] = [
+        AppErrors.factories.UserNotFound({ id: 1 }),
+        AppErrors.factories.UpstreamUnavailable(),
+      ];
+
+      const notFound = errors.filter(AppErrors.guards.UserNotFound);
+      expect(notFound).toHaveLength(1);
+      const code: "E1001" = notFound[0].code;
+      expect(code).toBe("E1001");
+    });
+
+    it("should reject errors that only share the type name", () => {
+      const lookalike = createError({
+        type: "UserNotFound",
+        message: "User 1 not found",
+      });
+
+      expect(AppErrors.guards.UserNotFound(lookalike)).toBe(false);
+      expect(AppErrors.is(lookalike)).toBe(false);
+      expect(AppErrors.is(AppErrors.factories.UpstreamUnavailable())).toBe(
+        true
+      );
+    });
+  });
+
+  describe("lookups", () => {
+    it("should expose status, retryability and codes", () => {
+      const error = AppErrors.factories.UpstreamUnavailable();
+
+      expect(AppErrors.getStatus(error)).toBe(503);
+      expect(AppErrors.getStatus("UserNotFound")).toBe(404);
+      expect(AppErrors.isRetryable(error)).toBe(true);
+      expect(AppErrors.isRetryable("UserNotFound")).toBe(false);
+      expect(AppErrors.findByCode("E1001")).toBe("UserNotFound");
+      expect(AppErrors.getDefinition("Unknown")).toBeUndefined();
+    });
+
+    it("should register definitions globally", () => {
+      const error = AppErrors.factories.UserNotFound({ id: 7 });
+      expect(getErrorDefinition(error)?.code).toBe("E1001");
+      expect(getErrorDefinition("NotInAnyCatalog")).toBeUndefined();
+    });
+
+    it("should reject duplicate codes", () => {
+      expect(() =>
+        defineErrorCatalog({
+          First: { code: "E9999", message: "first" },
+          Second: { code: "E9999", message: "second" },
+        })
+      ).toThrow('Duplicate error code "E9999"');
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { readFileSync } from "fs";
+import {
+  classifyError,
+  ErrorMapper,
+  registerThrownClassifier,
+  unregisterThrownClassifier,
+  ThrownClassifier,
+} from "../src/classify";
+import { trySync, trySyncTuple, tryCall } from "../src/sync";
+import { tryAsync } from "../src/async";
+import { createError, fromThrown } from "../src/errors";
+import { TryError, isTryError } from "../src/types";
+
+type NetworkError = TryError<"NetworkError">;
+type PaymentError = TryError<"PaymentDeclined">;
+type UnknownError = TryError<"Unknown">;
+
+class DeclinedError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Payment declined: ${reason}`);
+  }
+}
+
+const paymentMapper: ErrorMapper<NetworkError | PaymentError | UnknownError> =
+  {
+    constructors: [
+      [
+        DeclinedError,
+        (error: DeclinedError) =>
+          createError({
+            type: "PaymentDeclined",
+            message: error.message,
+            context: { reason: error.reason },
+          }),
+      ],
+    ],
+    codes: {
+      ECONNRESET: (error) =>
+        createError({
+          type: "NetworkError",
+          message: "Connection reset",
+          cause: error,
+        }),
+    },
+    fallback: (error) =>
+      createError({ type: "Unknown", message: String(error), cause: error }),
+  };
+
+describe("Typed Error Classification", () => {
+  describe("classifyError", () => {
+    it("should call a mapper function", () => {
+      const error = classifyError(new Error("boom"), (thrown) =>
+        createError({
+          type: "Mapped",
+          message: (thrown as Error).message,
+        })
+      );
+
+      expect(error.type).toBe("Mapped");
+      expect(error.message).toBe("boom");
+    });
+
+    it("should match table rules by constructor", () => {
+      const error = classifyError(new DeclinedError("expired"), paymentMapper);
+      expect(error.type).toBe("PaymentDeclined");
+      expect(error.context).toEqual({ reason: "expired" });
+    });
+
+    it("should match table rules by code", () => {
+      const thrown = Object.assign(new Error("socket hang up"), {
+        code: "ECONNRESET",
+      });
+      const error = classifyError(thrown, paymentMapper);
+      expect(error.type).toBe("NetworkError");
+      expect(error.cause).toBe(thrown);
+    });
+
+    it("should use the fallback when no rule matches", () => {
+      const error = classifyError("plain string", paymentMapper);
+      expect(error.type).toBe("Unknown");
+    });
+
+    it("should ignore inherited code keys", () => {
+      const error = classifyError({ code: "toString" }, paymentMapper);
+      expect(error.type).toBe("Unknown");
+    });
+  });
+
+  describe("trySync with mapError", () => {
+    it("should return the classified error with a narrowed type", () => {
+      const result = trySync(
+        () => {
+          throw new DeclinedError("insufficient funds");
+        },
+        { mapError: paymentMapper }
+      );
+
+      expect(isTryError(result)).toBe(true);
+      if (isTryError(result)) {
+        switch (result.type) {
+          case "PaymentDeclined":
+            expect(result.context?.reason).toBe("insufficient funds");
+            break;
+          case "NetworkError":
+          case "Unknown":
+            fail("Expected PaymentDeclined");
+            break;
+          default: {
+            // Exhaustiveness check over the declared union
+            const unreachable: never = result;
+            throw unreachable;
+          }
+        }
+      }
+    });
+
+    it("should infer the error union from a mapper function", () => {
+      const [, error] = trySyncTuple(
+        () => JSON.parse("invalid json"),
+        {
+          mapError: (thrown) =>
+            thrown instanceof SyntaxError
+              ? createError({ type: "ParseError", message: thrown.message })
+              : createError({ type: "Unknown", message: String(thrown) }),
+        }
+      );
+
+      const type: "ParseError" | "Unknown" | undefined = error?.type;
+      expect(type).toBe("ParseError");
+    });
+
+    it("should take precedence over errorType", () => {
+      const result = trySync(
+        () => {
+          throw new Error("boom");
+        },
+        {
+          errorType: "IgnoredType",
+          mapError: () => createError({ type: "Mapped", message: "mapped" }),
+        }
+      );
+
+      expect(isTryError(result) && result.type).toBe("Mapped");
+    });
+
+    it("should rethrow errors thrown by the mapper", () => {
+      expect(() =>
+        trySync(
+          () => {
+            throw new TypeError("bad type");
+          },
+          {
+            mapError: (): TryError => {
+              throw new Error("mapper broke");
+            },
+          }
+        )
+      ).toThrow("mapper broke");
+    });
+
+    it("should only narrow the error type through mapError", () => {
+      // @ts-expect-error the error type can't be chosen without a mapper
+      trySync<number, PaymentError>(() => 1);
+
+      const result = trySync(() => 1, { errorType: "Ignored" });
+      expect(result).toBe(1);
+    });
+
+    it("should detect mapError as tryCall options", () => {
+      const result = tryCall(
+        JSON.parse,
+        {
+          mapError: () => createError({ type: "ParseError", message: "bad" }),
+        },
+        "invalid json"
+      );
+
+      expect(isTryError(result) && result.type).toBe("ParseError");
+    });
+  });
+
+  describe("tryAsync with mapError", () => {
+    it("should classify rejections", async () => {
+      const result = await tryAsync(
+        async () => {
+          throw Object.assign(new Error("reset"), { code: "ECONNRESET" });
+        },
+        { mapError: paymentMapper }
+      );
+
+      expect(isTryError(result)).toBe(true);
+      if (isTryError(result)) {
+        expect(result.type).toBe("NetworkError");
+      }
+    });
+
+    it("should classify timeouts", async () => {
+      const result = await tryAsync(
+        () => new Promise((resolve) => setTimeout(resolve, 100)),
+        {
+          timeout: 10,
+          mapError: (error) =>
+            createError({
+              type: "TimeoutError",
+              message: (error as Error).message,
+            }),
+        }
+      );
+
+      expect(isTryError(result) && result.type).toBe("TimeoutError");
+    });
+
+    it("should leave successful results untouched", async () => {
+      const result = await tryAsync(async () => 42, {
+        mapError: paymentMapper,
+      });
+      expect(result).toBe(42);
+    });
+  });
+
+  describe("built-in thrown value classifiers", () => {
+    const systemError = (code: string, fields: Record<string, unknown>) =>
+      Object.assign(new Error(`${code}: system error`), { code, ...fields });
+
+    it("should classify Node system errors and keep their fields", () => {
+      const error = fromThrown(
+        systemError("ENOENT", {
+          errno: -2,
+          syscall: "open",
+          path: "/missing.txt",
+        })
+      );
+
+      expect(error.type).toBe("FileNotFound");
+      expect(error.context).toEqual({
+        code: "ENOENT",
+        errno: -2,
+        syscall: "open",
+        path: "/missing.txt",
+      });
+    });
+
+    it("should map common system error codes", () => {
+      expect(fromThrown(systemError("EACCES", {})).type).toBe(
+        "PermissionDenied"
+      );
+      expect(
+        fromThrown(systemError("ECONNREFUSED", { port: 5432 })).type
+      ).toBe("ConnectionRefused");
+      expect(
+        fromThrown(systemError("EWHATEVER", { syscall: "read" })).type
+      ).toBe("SystemError");
+    });
+
+    it("should classify real fs errors from trySync", () => {
+      const result = trySync(() => readFileSync("/definitely/missing"));
+
+      expect(isTryError(result) && result.type).toBe("FileNotFound");
+      expect(isTryError(result) && result.context?.syscall).toBe("open");
+    });
+
+    it("should classify DOMException aborts and timeouts", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const aborted = await tryAsync(async () =>
+        controller.signal.throwIfAborted()
+      );
+      expect(isTryError(aborted) && aborted.type).toBe("AbortError");
+
+      const timedOut = fromThrown(
+        new DOMException("The operation timed out.", "TimeoutError")
+      );
+      expect(timedOut.type).toBe("TimeoutError");
+    });
+
+    it("should classify fetch network failures with the underlying cause", () => {
+      const cause = systemError("ECONNREFUSED", {
+        address: "127.0.0.1",
+        port: 9,
+      });
+      const error = fromThrown(
+        Object.assign(new TypeError("fetch failed"), { cause })
+      );
+
+      expect(error.type).toBe("NetworkError");
+      expect(error.context).toEqual({
+        code: "ECONNREFUSED",
+        address: "127.0.0.1",
+        port: 9,
+      });
+      expect(fromThrown(new TypeError("Failed to fetch")).type).toBe(
+        "NetworkError"
+      );
+      expect(fromThrown(new TypeError("x is not a function")).type).toBe(
+        "TypeError"
+      );
+    });
+
+    it("should annotate JSON.parse syntax errors", () => {
+      const result = trySync(() => JSON.parse('{"a": tru}'));
+
+      expect(isTryError(result) && result.type).toBe("SyntaxError");
+      expect(isTryError(result) && result.context?.format).toBe("json");
+    });
+  });
+
+  describe("registerThrownClassifier", () => {
+    class RateLimited extends Error {
+      constructor(public readonly retryAfter: number) {
+        super("Too many requests");
+      }
+    }
+
+    const rateLimitClassifier: ThrownClassifier = (error) =>
+      error instanceof RateLimited
+        ? { type: "RateLimited", context: { retryAfter: error.retryAfter } }
+        : undefined;
+
+    afterEach(() => {
+      unregisterThrownClassifier(rateLimitClassifier);
+    });
+
+    it("should be used by fromThrown, trySync and tryAsync", async () => {
+      registerThrownClassifier(rateLimitClassifier);
+
+      expect(fromThrown(new RateLimited(30)).type).toBe("RateLimited");
+
+      const syncResult = trySync(() => {
+        throw new RateLimited(10);
+      });
+      expect(isTryError(syncResult) && syncResult.context).toEqual({
+        retryAfter: 10,
+      });
+
+      const asyncResult = await tryAsync(async () => {
+        throw new RateLimited(20);
+      });
+      expect(isTryError(asyncResult) && asyncResult.type).toBe("RateLimited");
+    });
+
+    it("should run before built-in classifiers", () => {
+      const classifier: ThrownClassifier = () => ({ type: "Overridden" });
+      registerThrownClassifier(classifier);
+
+      const error = fromThrown(
+        Object.assign(new Error("missing"), { code: "ENOENT" })
+      );
+      expect(unregisterThrownClassifier(classifier)).toBe(true);
+      expect(error.type).toBe("Overridden");
+    });
+
+    it("should skip classifiers that throw", () => {
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+      const broken: ThrownClassifier = () => {
+        throw new Error("classifier broke");
+      };
+      registerThrownClassifier(broken);
+
+      const error = fromThrown(new RangeError("out of range"));
+      unregisterThrownClassifier(broken);
+
+      expect(error.type).toBe("Error");
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+});
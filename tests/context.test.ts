@@ -0,0 +1,93 @@
+import { withErrorContext, getAmbientErrorContext } from "../src/context";
+import { createError, wrapError, fromThrown } from "../src/errors";
+import { createEntityError } from "../src/factories";
+import { tryAsync } from "../src/async";
+import { isTryError } from "../src/types";
+
+describe("Ambient Error Context", () => {
+  it("should merge the scope context into created errors", () => {
+    const error = withErrorContext({ requestId: "req-1" }, () =>
+      createError({
+        type: "ScopedError",
+        message: "inside scope",
+        context: { orderId: 7 },
+      })
+    );
+
+    expect(error.context).toEqual({ requestId: "req-1", orderId: 7 });
+  });
+
+  it("should let explicit context win over ambient context", () => {
+    const error = withErrorContext({ userId: "ambient" }, () =>
+      createError({
+        type: "OverrideError",
+        message: "explicit wins",
+        context: { userId: "explicit" },
+      })
+    );
+
+    expect(error.context).toEqual({ userId: "explicit" });
+  });
+
+  it("should layer nested scopes", () => {
+    withErrorContext({ requestId: "req-2", tenantId: "t-1" }, () => {
+      withErrorContext({ tenantId: "t-2", userId: "u-1" }, () => {
+        expect(getAmbientErrorContext()).toEqual({
+          requestId: "req-2",
+          tenantId: "t-2",
+          userId: "u-1",
+        });
+      });
+      expect(getAmbientErrorContext()).toEqual({
+        requestId: "req-2",
+        tenantId: "t-1",
+      });
+    });
+
+    expect(getAmbientErrorContext()).toBeUndefined();
+  });
+
+  it("should apply to wrapError, fromThrown and factories", () => {
+    withErrorContext({ requestId: "req-3" }, () => {
+      const wrapped = wrapError("WrappedError", new Error("boom"));
+      const thrown = fromThrown(new TypeError("bad type"));
+      const entity = createEntityError(
+        "user",
+        "u-9",
+        "UserNotFound",
+        "User not found"
+      );
+
+      expect(wrapped.context).toEqual({ requestId: "req-3" });
+      expect(thrown.context).toEqual({ requestId: "req-3" });
+      expect(entity.context).toEqual({ requestId: "req-3" });
+    });
+  });
+
+  it("should follow async continuations", async () => {
+    const result = await withErrorContext({ requestId: "req-4" }, () =>
+      tryAsync(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        throw new Error("after await");
+      })
+    );
+
+    expect(isTryError(result)).toBe(true);
+    if (isTryError(result)) {
+      expect(result.context).toMatchObject({ requestId: "req-4" });
+    }
+  });
+
+  it("should keep concurrent scopes isolated", async () => {
+    const run = (requestId: string, delay: number) =>
+      withErrorContext({ requestId }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return createError({ type: "ConcurrentError", message: requestId });
+      });
+
+    const [first, second] = await Promise.all([run("a", 5), run("b", 1)]);
+
+    expect(first.context).toEqual({ requestId: "a" });
+    expect(second.context).toEqual({ requestId: "b" });
+  });
+});
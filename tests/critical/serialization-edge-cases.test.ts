@@ -4,6 +4,7 @@ import {
   deserializeTryError,
   TryError,
   TRY_ERROR_BRAND,
+  TRY_ERROR_SCHEMA_VERSION,
 } from "../../src/types";
 
 describe("Serialization Edge Cases", () => {
@@ -163,8 +164,9 @@ describe("Serialization Edge Cases", () => {
       const deserialized = deserializeTryError(parsed);
 
       expect(deserialized).not.toBeNull();
-      // Date should be serialized as ISO string
-      expect(typeof deserialized?.context?.timestamp).toBe("string");
+      // Date should be revived as a Date
+      expect(deserialized?.context?.timestamp).toBeInstanceOf(Date);
+      expect(deserialized?.context?.timestamp).toEqual(date);
     });
 
     it("should handle RegExp objects in context", () => {
@@ -186,6 +188,300 @@ describe("Serialization Edge Cases", () => {
     });
   });
 
+  describe("Versioned Wire Format", () => {
+    const roundTrip = (error: TryError) =>
+      deserializeTryError(JSON.stringify(serializeTryError(error)));
+
+    it("should tag the envelope with the schema version", () => {
+      const error = createError({ type: "TestError", message: "Versioned" });
+      const serialized = serializeTryError(error);
+
+      expect(serialized.__version).toBe(TRY_ERROR_SCHEMA_VERSION);
+    });
+
+    it("should round-trip values JSON cannot represent", () => {
+      const context = {
+        createdAt: new Date("2024-01-02T03:04:05.000Z"),
+        lookup: new Map<string, unknown>([["a", 1], ["b", { nested: true }]]),
+        tags: new Set(["x", "y"]),
+        big: BigInt("12345678901234567890"),
+        missing: undefined,
+        list: [1, undefined, NaN, -0, Infinity],
+        tricky: { __type: "Date", value: "not a date" },
+      };
+      const error = createError({
+        type: "TestError",
+        message: "Rich context",
+        context,
+      });
+
+      const revived = roundTrip(error);
+
+      expect(revived?.context).toEqual(context);
+      expect(revived?.context?.createdAt).toBeInstanceOf(Date);
+      expect(revived?.context?.lookup).toBeInstanceOf(Map);
+      expect(revived?.context?.tags).toBeInstanceOf(Set);
+      expect(typeof revived?.context?.big).toBe("bigint");
+      expect(revived?.context).toHaveProperty("missing", undefined);
+      expect(Object.is((revived?.context?.list as number[])[3], -0)).toBe(true);
+    });
+
+    it("should revive nested TryError causes with brands", () => {
+      const root = createError({ type: "DbError", message: "Connection lost" });
+      const middle = createError({
+        type: "RepositoryError",
+        message: "Query failed",
+        cause: root,
+      });
+      const top = createError({
+        type: "ServiceError",
+        message: "Could not load user",
+        cause: middle,
+      });
+
+      const revived = roundTrip(top);
+      const revivedMiddle = revived?.cause;
+      const revivedRoot = isTryError(revivedMiddle)
+        ? revivedMiddle.cause
+        : undefined;
+
+      expect(isTryError(revivedMiddle)).toBe(true);
+      expect(isTryError(revivedRoot)).toBe(true);
+      expect((revivedRoot as TryError).type).toBe("DbError");
+    });
+
+    it("should revive native Error causes", () => {
+      const inner = new RangeError("Out of range");
+      const native = Object.assign(new TypeError("Bad input"), {
+        code: "E_BAD_INPUT",
+        cause: inner,
+      });
+      const error = createError({
+        type: "WrappedError",
+        message: "Wrapped native",
+        cause: native,
+      });
+
+      const revived = roundTrip(error);
+      const cause = revived?.cause as TypeError & {
+        code: string;
+        cause: unknown;
+      };
+
+      expect(cause).toBeInstanceOf(TypeError);
+      expect(cause.message).toBe("Bad input");
+      expect(cause.code).toBe("E_BAD_INPUT");
+      expect(cause.stack).toBe(native.stack);
+      expect(cause.cause).toBeInstanceOf(RangeError);
+    });
+
+    it("should keep custom native error names", () => {
+      class PaymentError extends Error {
+        name = "PaymentError";
+      }
+      const error = createError({
+        type: "WrappedError",
+        message: "Wrapped custom",
+        cause: new PaymentError("Declined"),
+      });
+
+      const cause = roundTrip(error)?.cause as Error;
+      expect(cause).toBeInstanceOf(Error);
+      expect(cause.name).toBe("PaymentError");
+    });
+
+    it("should replace circular references", () => {
+      const circular: any = { name: "loop" };
+      circular.self = circular;
+      const error = createError({
+        type: "TestError",
+        message: "Circular wire",
+        context: { circular },
+      });
+
+      const revived = roundTrip(error);
+      expect(revived?.context?.circular).toEqual({
+        name: "loop",
+        self: "[Circular]",
+      });
+    });
+
+    it("should reject envelopes from newer schema versions", () => {
+      const error = createError({ type: "TestError", message: "Future" });
+      const serialized = {
+        ...serializeTryError(error),
+        __version: TRY_ERROR_SCHEMA_VERSION + 1,
+      };
+
+      expect(deserializeTryError(serialized)).toBeNull();
+    });
+
+    it("should still accept unversioned payloads", () => {
+      const legacy = {
+        __tryError: true,
+        type: "LegacyError",
+        message: "From an older release",
+        source: "legacy.ts:1:1",
+        timestamp: 1700000000000,
+        context: { createdAt: "2024-01-02T03:04:05.000Z" },
+      };
+
+      const revived = deserializeTryError(legacy);
+      expect(isTryError(revived)).toBe(true);
+      expect(revived?.context?.createdAt).toBe("2024-01-02T03:04:05.000Z");
+    });
+  });
+
+  describe("Safe Deserialization", () => {
+    const valid = () =>
+      serializeTryError(
+        createError({
+          type: "ClientError",
+          message: "Reported by browser",
+          context: { page: "/checkout" },
+        })
+      );
+
+    it("should accept well-formed payloads", () => {
+      const revived = deserializeTryError(JSON.stringify(valid()), {
+        safe: true,
+      });
+
+      expect(isTryError(revived)).toBe(true);
+      expect(revived?.context).toEqual({ page: "/checkout" });
+    });
+
+    it("should strip prototype pollution keys", () => {
+      const payload = JSON.stringify(valid()).replace(
+        '"page":"/checkout"',
+        '"page":"/checkout","__proto__":{"polluted":true},"constructor":{"prototype":{"polluted":true}}'
+      );
+
+      const revived = deserializeTryError(payload, { safe: true });
+
+      expect(revived?.context).toEqual({ page: "/checkout" });
+      expect(Object.getPrototypeOf(revived?.context)).toBe(Object.prototype);
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it("should reject payloads over the size limit", () => {
+      const payload = JSON.stringify({
+        ...valid(),
+        message: "x".repeat(2000),
+      });
+
+      expect(deserializeTryError(payload, { safe: { maxSize: 1000 } })).toBe(
+        null
+      );
+      expect(
+        deserializeTryError(JSON.parse(payload), { safe: { maxSize: 1000 } })
+      ).toBeNull();
+      expect(deserializeTryError(payload)).not.toBeNull();
+    });
+
+    it("should reject payloads that are too deep", () => {
+      let nested: Record<string, unknown> = { leaf: true };
+      for (let i = 0; i < 50; i++) {
+        nested = { nested };
+      }
+      const payload = { ...valid(), context: nested };
+
+      expect(deserializeTryError(payload, { safe: true })).toBeNull();
+      expect(
+        deserializeTryError(payload, { safe: { maxDepth: 64 } })
+      ).not.toBeNull();
+    });
+
+    it("should reject payloads with too many keys", () => {
+      const context: Record<string, number> = {};
+      for (let i = 0; i < 100; i++) {
+        context[`key${i}`] = i;
+      }
+      const payload = { ...valid(), context };
+
+      expect(deserializeTryError(payload, { safe: { maxKeys: 50 } })).toBe(
+        null
+      );
+    });
+
+    it("should reject unknown top-level fields unless allowed", () => {
+      const payload = { ...valid(), isAdmin: true };
+
+      expect(deserializeTryError(payload, { safe: true })).toBeNull();
+      expect(
+        deserializeTryError(payload, { safe: { allowedFields: ["isAdmin"] } })
+      ).not.toBeNull();
+    });
+
+    it("should reject context and cause with disallowed shapes", () => {
+      expect(
+        deserializeTryError({ ...valid(), context: ["not", "an", "object"] }, {
+          safe: true,
+        })
+      ).toBeNull();
+      expect(
+        deserializeTryError(
+          { ...valid(), context: { __type: "Map", value: [] } },
+          { safe: true }
+        )
+      ).toBeNull();
+      expect(
+        deserializeTryError(
+          { ...valid(), cause: { arbitrary: "object" } },
+          { safe: true }
+        )
+      ).toBeNull();
+    });
+
+    it("should accept TryError and native Error causes", () => {
+      const error = createError({
+        type: "ClientError",
+        message: "Wrapped failure",
+        cause: createError({ type: "InnerError", message: "inner" }),
+      });
+
+      const revived = deserializeTryError(serializeTryError(error), {
+        safe: true,
+      });
+      expect(isTryError(revived?.cause)).toBe(true);
+    });
+
+    it("should apply the same checks to nested causes", () => {
+      const withCause = (cause: Record<string, unknown>) => ({
+        ...valid(),
+        cause: { ...valid(), ...cause },
+      });
+
+      const unknownField = withCause({ isAdmin: true });
+      expect(deserializeTryError(unknownField, { safe: true })).toBeNull();
+      expect(
+        deserializeTryError(unknownField, {
+          safe: { allowedFields: ["isAdmin"] },
+        })
+      ).not.toBeNull();
+      expect(
+        (deserializeTryError(unknownField)?.cause as { isAdmin?: boolean })
+          .isAdmin
+      ).toBe(true);
+
+      expect(
+        deserializeTryError(withCause({ context: ["not", "an", "object"] }), {
+          safe: true,
+        })
+      ).toBeNull();
+      expect(
+        deserializeTryError(withCause({ cause: { arbitrary: "object" } }), {
+          safe: true,
+        })
+      ).toBeNull();
+    });
+
+    it("should reject non-JSON objects in object input", () => {
+      const payload = { ...valid(), context: { when: new Date() } };
+      expect(deserializeTryError(payload, { safe: true })).toBeNull();
+    });
+  });
+
   describe("Malformed Data Validation", () => {
     it("should reject objects without __tryError marker", () => {
       const notTryError = {
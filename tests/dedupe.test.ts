@@ -0,0 +1,169 @@
+import { flushErrorDedupe } from "../src/dedupe";
+import { createError } from "../src/errors";
+import { configure, resetConfig } from "../src/config";
+import { errorEvents, ErrorEvent } from "../src/events";
+import { TryError } from "../src/types";
+
+const flushEvents = () =>
+  new Promise((resolve) => process.nextTick(resolve));
+
+describe("Error Deduplication Window", () => {
+  let events: ErrorEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    events = [];
+    unsubscribe = errorEvents.onAll((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    flushErrorDedupe();
+    unsubscribe();
+    resetConfig();
+  });
+
+  it("should fold repeats into one representative error", async () => {
+    const onError = jest.fn((error) => error);
+    configure({
+      dedupeWindow: { windowMs: 10_000 },
+      includeSource: true,
+      onError,
+    });
+
+    const errors = [1, 2, 3].map((attempt) =>
+      createError({
+        type: "UpstreamDown",
+        message: "payments unavailable",
+        context: { attempt },
+      })
+    );
+    await flushEvents();
+
+    expect(errors[1]).toBe(errors[0]);
+    expect(errors[2]).toBe(errors[0]);
+    expect(errors[0].occurrences).toBe(3);
+    expect(errors[0].context).toEqual({ attempt: 1 });
+    expect(errors[0].source).toContain("dedupe.test.ts");
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(
+      events.filter((event) => event.type === "error:created")
+    ).toHaveLength(1);
+  });
+
+  it("should count on the object onError and listeners received", async () => {
+    const seen: TryError[] = [];
+    configure({
+      dedupeWindow: { windowMs: 10_000 },
+      onError: (error) => {
+        seen.push(error);
+        return error;
+      },
+    });
+
+    const error = createError({ type: "Flood", message: "again" });
+    createError({ type: "Flood", message: "again" });
+    await flushEvents();
+
+    const created = events.find((event) => event.type === "error:created");
+    expect(seen[0]).toBe(error);
+    expect(created?.error).toBe(error);
+    expect(error.occurrences).toBe(2);
+  });
+
+  it("should dedupe errors created inside onError", () => {
+    const nested: TryError[] = [];
+    configure({
+      dedupeWindow: { windowMs: 10_000 },
+      onError: (error) => {
+        if (error.type === "Outer" && nested.length === 0) {
+          nested.push(createError({ type: "Inner", message: "audit" }));
+          nested.push(createError({ type: "Outer", message: "same" }));
+        }
+        return error;
+      },
+    });
+
+    createError({ type: "Inner", message: "audit" });
+    createError({ type: "Outer", message: "same" });
+
+    expect(nested[0].occurrences).toBe(2);
+    expect(nested[1].occurrences).toBeUndefined();
+  });
+
+  it("should keep different fingerprints apart", () => {
+    configure({
+      dedupeWindow: { windowMs: 10_000, fields: ["type", "context"] },
+    });
+
+    const first = createError({
+      type: "Timeout",
+      message: "a",
+      context: { host: "a" },
+    });
+    const second = createError({
+      type: "Timeout",
+      message: "b",
+      context: { host: "b" },
+    });
+
+    expect(second).not.toBe(first);
+    expect(first.occurrences).toBe(1);
+    expect(second.occurrences).toBe(1);
+  });
+
+  it("should emit a summary when the window closes", async () => {
+    configure({ dedupeWindow: { windowMs: 10_000 } });
+
+    const error = createError({ type: "Storm", message: "again" });
+    createError({ type: "Storm", message: "again" });
+    createError({ type: "Single", message: "once" });
+    flushErrorDedupe();
+    await flushEvents();
+
+    const summaries = events.filter(
+      (event) => event.type === "error:deduplicated"
+    );
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({ error, occurrences: 2 });
+  });
+
+  it("should start a new window after it expires", async () => {
+    configure({ dedupeWindow: { windowMs: 5 } });
+
+    const first = createError({ type: "Expiring", message: "x" });
+    createError({ type: "Expiring", message: "x" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const second = createError({ type: "Expiring", message: "x" });
+    await flushEvents();
+
+    expect(second).not.toBe(first);
+    expect(second.occurrences).toBe(1);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "error:deduplicated",
+        error: first,
+        occurrences: 2,
+      })
+    );
+  });
+
+  it("should close the oldest window when maxWindows is reached", async () => {
+    configure({ dedupeWindow: { windowMs: 10_000, maxWindows: 1 } });
+
+    const first = createError({ type: "First", message: "x" });
+    createError({ type: "First", message: "x" });
+    createError({ type: "Second", message: "y" });
+    await flushEvents();
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "error:deduplicated", error: first })
+    );
+    expect(createError({ type: "First", message: "x" })).not.toBe(first);
+  });
+
+  it("should leave createError unchanged without a window", () => {
+    const error = createError({ type: "Plain", message: "no dedupe" });
+
+    expect(error.occurrences).toBeUndefined();
+  });
+});
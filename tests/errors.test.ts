@@ -1,5 +1,21 @@
-import { createError, wrapError, fromThrown } from "../src/errors";
-import { TryError, isTryError } from "../src/types";
+import {
+  createError,
+  wrapError,
+  createAggregateError,
+  fromThrown,
+  toNativeError,
+  NativeTryError,
+} from "../src/errors";
+import {
+  TryError,
+  isTryError,
+  isAggregateTryError,
+  serializeTryError,
+  deserializeTryError,
+} from "../src/types";
+import { isLazyProperty } from "../src/lazy";
+import { configure, resetConfig } from "../src/config";
+import { errorEvents } from "../src/events";
 
 describe("Error Creation Utilities", () => {
   describe("createError", () => {
@@ -84,6 +100,58 @@ describe("Error Creation Utilities", () => {
     });
   });
 
+  describe("createError with interpolate", () => {
+    it("should fill the message template from context on first access", () => {
+      const error = createError({
+        type: "OrderLimitExceeded",
+        message: "Order {orderId} exceeds {limit}",
+        context: { orderId: "o-42", limit: 500 },
+        interpolate: true,
+      });
+
+      expect(isLazyProperty(error, "message")).toBe(true);
+      expect(error.message).toBe("Order o-42 exceeds 500");
+      expect(isLazyProperty(error, "message")).toBe(false);
+      expect(isTryError(error)).toBe(true);
+      expect(error.source).toMatch(/errors\.test\.ts:\d+:\d+/);
+    });
+
+    it("should hand onError the same error the caller gets", () => {
+      const seen: TryError[] = [];
+      configure({
+        onError: (error) => {
+          seen.push(error);
+          return error;
+        },
+      });
+
+      try {
+        const error = createError({
+          type: "QuotaExceeded",
+          message: "Quota {quota} reached",
+          context: { quota: 10 },
+          interpolate: true,
+        });
+
+        expect(seen).toEqual([error]);
+        expect(seen[0]).toBe(error);
+        expect(seen[0].message).toBe("Quota 10 reached");
+      } finally {
+        resetConfig();
+      }
+    });
+
+    it("should leave messages untouched without interpolate", () => {
+      const error = createError({
+        type: "Literal",
+        message: "Braces {stay} as written",
+        context: { stay: "replaced" },
+      });
+
+      expect(error.message).toBe("Braces {stay} as written");
+    });
+  });
+
   describe("wrapError", () => {
     it("should wrap an Error instance", () => {
       const originalError = new Error("Original error message");
@@ -140,6 +208,96 @@ describe("Error Creation Utilities", () => {
     });
   });
 
+  describe("createAggregateError", () => {
+    const members = [
+      createError({ type: "ValidationError", message: "Row 1 invalid" }),
+      createError({ type: "NetworkError", message: "Row 2 upload failed" }),
+    ] as const;
+
+    it("should create a TryError carrying the member errors", () => {
+      const error = createAggregateError(members);
+
+      expect(isTryError(error)).toBe(true);
+      expect(isAggregateTryError(error)).toBe(true);
+      expect(error.type).toBe("AggregateError");
+      expect(error.message).toBe("2 errors occurred");
+      expect(error.errors).toEqual(members);
+    });
+
+    it("should accept a custom type, message and context", () => {
+      const error = createAggregateError(members, {
+        type: "BatchError",
+        message: "Batch failed",
+        context: { batchId: "b-1" },
+      });
+
+      const type: "BatchError" = error.type;
+      expect(type).toBe("BatchError");
+      expect(error.message).toBe("Batch failed");
+      expect(error.context).toEqual({ batchId: "b-1" });
+    });
+
+    it("should not share state between identical aggregates", () => {
+      const first = createAggregateError([members[0]]);
+      const second = createAggregateError([members[1]]);
+
+      expect(first).not.toBe(second);
+      expect(first.errors).toEqual([members[0]]);
+      expect(second.errors).toEqual([members[1]]);
+    });
+
+    it("should round-trip through serialization", () => {
+      const error = createAggregateError(members);
+      const revived = deserializeTryError(
+        JSON.stringify(serializeTryError(error))
+      );
+
+      expect(isAggregateTryError(revived)).toBe(true);
+      if (isAggregateTryError(revived)) {
+        expect(revived.errors.map((e) => e.type)).toEqual([
+          "ValidationError",
+          "NetworkError",
+        ]);
+        expect(revived.errors.every((e) => isTryError(e))).toBe(true);
+      }
+    });
+
+    it("should not treat arbitrary errors arrays as aggregates", () => {
+      const error = createError({ type: "Plain", message: "plain" });
+      expect(isAggregateTryError(error)).toBe(false);
+      expect(isAggregateTryError({ ...error, errors: ["nope"] })).toBe(false);
+      expect(isAggregateTryError({ ...error, errors: [] })).toBe(false);
+    });
+
+    it("should expose the member errors to onError and events", async () => {
+      const seen: TryError[] = [];
+      const created: TryError[] = [];
+      const unsubscribe = errorEvents.on("error:created", (event) => {
+        if (event.type === "error:created") created.push(event.error);
+      });
+      configure({
+        onError: (error) => {
+          seen.push(error);
+          return error;
+        },
+      });
+
+      try {
+        const error = createAggregateError(members, { type: "Observed" });
+        await new Promise((resolve) => process.nextTick(resolve));
+
+        expect(isAggregateTryError(seen[0])).toBe(true);
+        expect(created).toContain(error);
+        expect(
+          createError({ type: "Observed", message: "2 errors occurred" })
+        ).not.toHaveProperty("errors");
+      } finally {
+        unsubscribe();
+        resetConfig();
+      }
+    });
+  });
+
   describe("fromThrown", () => {
     it("should detect TypeError", () => {
       const typeError = new TypeError("Cannot read property");
@@ -204,6 +362,89 @@ describe("Error Creation Utilities", () => {
     });
   });
 
+  describe("toNativeError", () => {
+    it("should produce an Error carrying type, context and stack", () => {
+      const error = createError({
+        type: "PaymentDeclined",
+        message: "Card declined",
+        context: { orderId: "o-1", amount: 42 },
+      });
+      const native = toNativeError(error);
+
+      expect(native).toBeInstanceOf(Error);
+      expect(native).toBeInstanceOf(NativeTryError);
+      expect(native.name).toBe("PaymentDeclined");
+      expect(native.message).toBe("Card declined");
+      expect(native.stack).toBe(error.stack);
+      expect(native).toMatchObject({ orderId: "o-1", amount: 42 });
+      expect(String(native)).toBe("PaymentDeclined: Card declined");
+    });
+
+    it("should chain causes through Error.cause", () => {
+      const root = new Error("socket closed");
+      const inner = createError({
+        type: "NetworkError",
+        message: "request failed",
+        cause: root,
+      });
+      const outer = createError({
+        type: "SyncError",
+        message: "sync aborted",
+        cause: inner,
+      });
+
+      const native = toNativeError(outer);
+      const nativeCause = native.cause as Error;
+
+      expect(Object.keys(native)).not.toContain("cause");
+      expect(nativeCause).toBeInstanceOf(NativeTryError);
+      expect(nativeCause.name).toBe("NetworkError");
+      expect((nativeCause as NativeTryError).cause).toBe(root);
+    });
+
+    it("should not overwrite reserved error fields with context", () => {
+      const native = toNativeError(
+        createError({
+          type: "Reserved",
+          message: "real message",
+          context: { message: "context message", name: "other" },
+        })
+      );
+
+      expect(native.message).toBe("real message");
+      expect(native.name).toBe("Reserved");
+    });
+
+    it("should be rebuilt by fromThrown", () => {
+      const error = createError({
+        type: "RoundTrip",
+        message: "thrown across a boundary",
+        context: { id: 7 },
+      });
+
+      expect(fromThrown(toNativeError(error))).toBe(error);
+      expect(fromThrown(toNativeError(error), { retry: true })).toMatchObject({
+        type: "RoundTrip",
+        context: { id: 7, retry: true },
+      });
+    });
+
+    it("should be rebuilt by wrapError", () => {
+      const error = createError({
+        type: "RoundTrip",
+        message: "wrapped across a boundary",
+      });
+      const native = toNativeError(error);
+
+      expect(wrapError("RoundTrip", native)).toBe(error);
+
+      const wrapped = wrapError("HandlerError", native);
+      expect(wrapped.type).toBe("HandlerError");
+      expect(wrapped.message).toBe("wrapped across a boundary");
+      expect(wrapped.cause).toBe(error);
+    });
+  });
+
   describe("source location detection", () => {
     it("should detect source location automatically", () => {
       const error = createError({
@@ -6,10 +6,21 @@ import {
   createAmountError,
   createExternalError,
   createValidationError,
+  entityErrorReviver,
+  validationErrorReviver,
   EntityError,
   AmountError,
 } from "../src/factories";
-import { TryError, TRY_ERROR_BRAND } from "../src/types";
+import {
+  TryError,
+  TRY_ERROR_BRAND,
+  serializeTryError,
+  deserializeTryError,
+  registerErrorReviver,
+  unregisterErrorReviver,
+  isDeserializationError,
+  isTryError,
+} from "../src/types";
 import { createError } from "../src/errors";
 
 describe("Error Factories", () => {
@@ -322,4 +333,190 @@ describe("Error Factories", () => {
       expect(error.cardLast4).toBe("4242");
     });
   });
+
+  describe("Revival on deserialization", () => {
+    type ShipmentErrorType = "ShipmentLost" | "ShipmentDelayed";
+    interface ShipmentError extends TryError<ShipmentErrorType> {
+      readonly trackingId: string;
+      readonly carrier: string;
+    }
+
+    const createShipmentError = createErrorFactory<
+      ShipmentErrorType,
+      ShipmentError
+    >({ carrier: "ups" }, ["trackingId"], undefined, [
+      "ShipmentLost",
+      "ShipmentDelayed",
+    ]);
+
+    afterAll(() => {
+      unregisterErrorReviver("ShipmentLost");
+      unregisterErrorReviver("ShipmentDelayed");
+    });
+
+    it("should revive a valid domain error with its fields", () => {
+      const error = createShipmentError("ShipmentLost", "Parcel lost", {
+        trackingId: "1Z999",
+      });
+
+      const revived = deserializeTryError<ShipmentErrorType, ShipmentError>(
+        JSON.stringify(serializeTryError(error)),
+        { revive: true }
+      );
+
+      expect(isDeserializationError(revived)).toBe(false);
+      if (revived && !isDeserializationError(revived)) {
+        expect(revived.trackingId).toBe("1Z999");
+        expect(revived.carrier).toBe("ups");
+      }
+    });
+
+    it("should return a DeserializationError for missing fields", () => {
+      const payload = {
+        ...serializeTryError(
+          createShipmentError("ShipmentDelayed", "Parcel delayed", {
+            trackingId: "1Z000",
+          })
+        ),
+      };
+      delete payload.trackingId;
+
+      const revived = deserializeTryError(payload, { revive: true });
+
+      expect(isTryError(revived)).toBe(true);
+      expect(isDeserializationError(revived)).toBe(true);
+      if (isDeserializationError(revived)) {
+        expect(revived.errorType).toBe("ShipmentDelayed");
+        expect(revived.issues).toEqual([
+          "Required field 'trackingId' is missing",
+        ]);
+        expect(revived.message).toContain("trackingId");
+        expect(isTryError(revived.cause)).toBe(true);
+      }
+    });
+
+    it("should validate with the built-in revivers", () => {
+      registerErrorReviver("AccountNotFound", entityErrorReviver);
+      registerErrorReviver("SignupInvalid", validationErrorReviver);
+
+      try {
+        const entity = createEntityError(
+          "account",
+          "acct_1",
+          "AccountNotFound",
+          "Account not found"
+        );
+        expect(
+          isDeserializationError(
+            deserializeTryError(serializeTryError(entity), { revive: true })
+          )
+        ).toBe(false);
+
+        const broken = {
+          ...serializeTryError(
+            createValidationError(
+              "SignupInvalid",
+              "Invalid",
+              { email: ["bad"] },
+              "E1"
+            )
+          ),
+          fields: { email: "bad" },
+        };
+        const revived = deserializeTryError(broken, { revive: true });
+        expect(isDeserializationError(revived) && revived.issues).toEqual([
+          "Field 'email' must have an array of error messages",
+        ]);
+      } finally {
+        unregisterErrorReviver("AccountNotFound");
+        unregisterErrorReviver("SignupInvalid");
+      }
+    });
+
+    it("should register the types factories create", () => {
+      interface ParcelError extends TryError<"ParcelDamaged"> {
+        readonly trackingId: string;
+      }
+      const createParcelError = createErrorFactory<
+        "ParcelDamaged",
+        ParcelError
+      >({}, ["trackingId"]);
+
+      try {
+        const payload = {
+          ...serializeTryError(
+            createParcelError("ParcelDamaged", "Damaged", { trackingId: "1" })
+          ),
+        };
+        delete payload.trackingId;
+        const entity = createEntityError(
+          "invoice",
+          "inv_1",
+          "InvoiceMissing",
+          "Invoice missing"
+        );
+
+        expect(
+          isDeserializationError(deserializeTryError(payload, { revive: true }))
+        ).toBe(true);
+        expect(
+          isDeserializationError(
+            deserializeTryError(
+              { ...serializeTryError(entity), entityId: "" },
+              { revive: true }
+            )
+          )
+        ).toBe(true);
+      } finally {
+        unregisterErrorReviver("ParcelDamaged");
+        unregisterErrorReviver("InvoiceMissing");
+      }
+    });
+
+    it("should keep revivers registered explicitly", () => {
+      registerErrorReviver("RefundFailed", () => []);
+
+      try {
+        const error = createAmountError(5, "USD", "RefundFailed", "Failed");
+
+        expect(
+          isDeserializationError(
+            deserializeTryError(
+              { ...serializeTryError(error), amount: "5" },
+              { revive: true }
+            )
+          )
+        ).toBe(false);
+      } finally {
+        unregisterErrorReviver("RefundFailed");
+      }
+    });
+
+    it("should leave unregistered types untouched", () => {
+      const error = createError({ type: "Unregistered", message: "plain" });
+      const revived = deserializeTryError(serializeTryError(error), {
+        revive: true,
+      });
+
+      expect(isDeserializationError(revived)).toBe(false);
+      expect(revived?.type).toBe("Unregistered");
+    });
+
+    it("should only run revivers when revival is requested", () => {
+      const payload = {
+        ...serializeTryError(
+          createShipmentError("ShipmentLost", "Parcel lost", {
+            trackingId: "1Z111",
+          })
+        ),
+      };
+      delete payload.trackingId;
+
+      const revived: TryError<ShipmentErrorType> | null =
+        deserializeTryError<ShipmentErrorType>(payload);
+
+      expect(isDeserializationError(revived)).toBe(false);
+      expect(revived?.type).toBe("ShipmentLost");
+    });
+  });
 });
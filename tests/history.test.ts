@@ -0,0 +1,158 @@
+import {
+  ErrorHistory,
+  getErrorHistory,
+  resetErrorHistory,
+} from "../src/history";
+import { configure, resetConfig } from "../src/config";
+import { createError } from "../src/errors";
+import { getErrorFingerprint } from "../src/utils";
+import { TryError, TRY_ERROR_BRAND } from "../src/types";
+
+const makeError = (
+  type: string,
+  timestamp: number,
+  source = "app.ts:1:1"
+): TryError => ({
+  [TRY_ERROR_BRAND]: true,
+  type,
+  message: `${type} at ${timestamp}`,
+  source,
+  timestamp,
+});
+
+describe("Error History", () => {
+  describe("ErrorHistory", () => {
+    it("should keep the most recent errors in a ring buffer", () => {
+      const history = new ErrorHistory({ maxSize: 3 });
+      for (let i = 1; i <= 5; i++) {
+        history.record(makeError(`E${i}`, i));
+      }
+
+      expect(history.size).toBe(3);
+      expect(history.query().map((error) => error.type)).toEqual([
+        "E5",
+        "E4",
+        "E3",
+      ]);
+    });
+
+    it("should query by type, time range, fingerprint and source", () => {
+      const history = new ErrorHistory();
+      const target = makeError("Timeout", 200, "db.ts:10:5");
+      history.record(makeError("Validation", 100));
+      history.record(target);
+      history.record(makeError("Timeout", 300, "http.ts:4:2"));
+
+      expect(history.query({ type: "Timeout" })).toHaveLength(2);
+      expect(history.query({ type: ["Timeout", "Validation"] })).toHaveLength(
+        3
+      );
+      expect(history.query({ since: 150, until: 250 })).toEqual([target]);
+      expect(
+        history.query({ fingerprint: getErrorFingerprint(target) })
+      ).toEqual([target]);
+      expect(history.query({ source: /^db\.ts/ })).toEqual([target]);
+      expect(history.query({ source: "http.ts" })[0].timestamp).toBe(300);
+      expect(history.query({ limit: 1 })[0].timestamp).toBe(300);
+    });
+
+    it("should count errors in a rolling window", () => {
+      const history = new ErrorHistory();
+      history.record(makeError("A", 1000));
+      history.record(makeError("A", 9000));
+      history.record(makeError("B", 9500));
+
+      expect(history.getCounts(2000, {}, 10000)).toEqual({
+        total: 2,
+        byType: { A: 1, B: 1 },
+      });
+      expect(history.getCounts(10000, { type: "A" }, 10000).total).toBe(2);
+    });
+
+    it("should export a serializable snapshot", () => {
+      const history = new ErrorHistory({ maxSize: 10 });
+      history.record(makeError("A", 1));
+
+      const snapshot = history.snapshot();
+
+      expect(snapshot.capacity).toBe(10);
+      expect(snapshot.size).toBe(1);
+      expect(snapshot.entries[0]).toMatchObject({
+        type: "A",
+        timestamp: 1,
+        fingerprint: "A|A at 1",
+        error: { type: "A", __tryError: true },
+      });
+      expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    });
+
+    it("should keep the newest errors when resized", () => {
+      const history = new ErrorHistory({ maxSize: 5 });
+      for (let i = 1; i <= 5; i++) {
+        history.record(makeError(`E${i}`, i));
+      }
+
+      history.resize(2);
+
+      expect(history.capacity).toBe(2);
+      expect(history.query().map((error) => error.type)).toEqual(["E5", "E4"]);
+    });
+
+    it("should read lazy fields only when a query needs them", () => {
+      const history = new ErrorHistory();
+      const source = jest.fn(() => "lazy.ts:1:1");
+      const error = Object.defineProperty(makeError("Lazy", 1), "source", {
+        get: source,
+      });
+      history.record(error);
+
+      expect(history.getCounts(Infinity, {}, 1).total).toBe(1);
+      expect(source).not.toHaveBeenCalled();
+      expect(history.query({ source: "lazy.ts" })[0]).toBe(error);
+      expect(source).toHaveBeenCalled();
+    });
+
+    it("should hold errors weakly when configured", () => {
+      const history = new ErrorHistory({ useWeakRefs: true });
+      const error = makeError("Weak", 1);
+      history.record(error);
+
+      expect(history.query()).toEqual([error]);
+      expect(history.getCounts(Infinity, {}, 1).total).toBe(1);
+    });
+  });
+
+  describe("global history", () => {
+    afterEach(() => {
+      resetErrorHistory();
+      resetConfig();
+    });
+
+    it("should record created errors with the memory settings", async () => {
+      const history = getErrorHistory();
+      configure({ performance: { memory: { maxErrorHistory: 2 } } });
+
+      createError({ type: "First", message: "first" });
+      createError({ type: "Second", message: "second" });
+      createError({ type: "Third", message: "third" });
+      await new Promise((resolve) => process.nextTick(resolve));
+
+      expect(getErrorHistory()).toBe(history);
+      expect(history.capacity).toBe(2);
+      expect(history.query().map((error) => error.type)).toEqual([
+        "Third",
+        "Second",
+      ]);
+    });
+
+    it("should stop recording after reset", async () => {
+      getErrorHistory();
+      resetErrorHistory();
+
+      createError({ type: "Ignored", message: "ignored" });
+      await new Promise((resolve) => process.nextTick(resolve));
+
+      expect(getErrorHistory().size).toBe(0);
+    });
+  });
+});
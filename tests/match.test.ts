@@ -0,0 +1,153 @@
+import { match } from "../src/match";
+import { createError } from "../src/errors";
+import { TryError, TryResult } from "../src/types";
+
+type NotFoundError = TryError<"NotFound"> & {
+  readonly context: { resource: string };
+};
+type HttpError = TryError<"Http"> & {
+  readonly context: { status: number };
+};
+type ApiError = NotFoundError | HttpError;
+
+const notFound = (resource: string): ApiError =>
+  createError({
+    type: "NotFound",
+    message: `${resource} not found`,
+    context: { resource },
+  }) as NotFoundError;
+
+const http = (status: number): ApiError =>
+  createError({
+    type: "Http",
+    message: `HTTP ${status}`,
+    context: { status },
+  }) as HttpError;
+
+const fetchUser = (outcome: TryResult<{ name: string }, ApiError>) => outcome;
+
+describe("Pattern Matching", () => {
+  describe("with", () => {
+    it("should narrow by error type", () => {
+      const label = match(notFound("user"))
+        .with(
+          { type: "NotFound" },
+          (error) => `missing ${error.context.resource}`
+        )
+        .with({ type: "Http" }, (error) => `status ${error.context.status}`)
+        .exhaustive();
+
+      expect(label).toBe("missing user");
+    });
+
+    it("should match nested context patterns", () => {
+      const handle = (error: ApiError) =>
+        match(error)
+          .with({ type: "Http", context: { status: 503 } }, () => "retry")
+          .with({ type: "Http" }, (e) => `fail ${e.context.status}`)
+          .with({ type: "NotFound" }, () => "missing")
+          .exhaustive();
+
+      expect(handle(http(503))).toBe("retry");
+      expect(handle(http(500))).toBe("fail 500");
+      expect(handle(notFound("user"))).toBe("missing");
+    });
+
+    it("should refine handler parameters by nested patterns", () => {
+      const status = match(http(503))
+        .with({ type: "Http", context: { status: 503 } }, (error) => {
+          const exact: 503 = error.context.status;
+          // @ts-expect-error - the pattern fixes status to 503
+          const other: 500 = error.context.status;
+          return [exact, other];
+        })
+        .otherwise(() => []);
+
+      expect(status).toEqual([503, 503]);
+    });
+
+    it("should accept predicate patterns", () => {
+      const label = match(http(502))
+        .with(
+          { type: "Http", context: { status: (s: number) => s >= 500 } },
+          () => "server"
+        )
+        .otherwise(() => "other");
+
+      expect(label).toBe("server");
+    });
+
+    it("should use the first matching handler", () => {
+      const second = jest.fn();
+      const label = match(http(404))
+        .with({ type: "Http" }, () => "first")
+        .with({ message: "HTTP 404" }, second)
+        .otherwise(() => "none");
+
+      expect(label).toBe("first");
+      expect(second).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("ok", () => {
+    it("should handle success values of a TryResult", () => {
+      const render = (result: TryResult<{ name: string }, ApiError>) =>
+        match(result)
+          .ok((user) => `hello ${user.name}`)
+          .with({ type: "NotFound" }, () => "missing")
+          .with({ type: "Http" }, () => "failed")
+          .exhaustive();
+
+      expect(render(fetchUser({ name: "Ada" }))).toBe("hello Ada");
+      expect(render(fetchUser(http(500)))).toBe("failed");
+    });
+  });
+
+  describe("otherwise", () => {
+    it("should receive the unmatched cases", () => {
+      const label = match(fetchUser(notFound("user")))
+        .with({ type: "Http" }, () => "http")
+        .otherwise((rest) =>
+          rest instanceof Object && "type" in rest ? rest.type : "ok"
+        );
+
+      expect(label).toBe("NotFound");
+    });
+  });
+
+  describe("exhaustive", () => {
+    it("should fail to type-check when variants are unhandled", () => {
+      const partial = () =>
+        match(http(500))
+          .with({ type: "NotFound" }, () => "missing")
+          // @ts-expect-error - "Http" is not handled
+          .exhaustive();
+
+      expect(partial).toThrow(
+        'Non-exhaustive match: unhandled error of type "Http"'
+      );
+    });
+
+    it("should not treat nested patterns as exhaustive", () => {
+      const partial = () =>
+        match(http(500))
+          .with({ type: "NotFound" }, () => "missing")
+          .with({ type: "Http", context: { status: 503 } }, () => "retry")
+          // @ts-expect-error - other "Http" statuses are not handled
+          .exhaustive();
+
+      expect(partial).toThrow("Non-exhaustive match");
+    });
+
+    it("should require the success case for TryResults", () => {
+      const partial = () =>
+        match(fetchUser({ name: "Ada" }))
+          .with({ type: "NotFound" }, () => "missing")
+          .with({ type: "Http" }, () => "failed")
+          // @ts-expect-error - success value is not handled
+          .exhaustive();
+
+      expect(partial).toThrow("Non-exhaustive match: unhandled success value");
+    });
+  });
+});
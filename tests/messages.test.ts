@@ -0,0 +1,66 @@
+import {
+  formatMessage,
+  registerLocale,
+  unregisterLocale,
+  getLocaleMessage,
+} from "../src/messages";
+
+describe("Message Templates", () => {
+  describe("formatMessage", () => {
+    it("should fill placeholders from params", () => {
+      expect(
+        formatMessage("Order {orderId} exceeds {limit}", {
+          orderId: 7,
+          limit: 100,
+        })
+      ).toBe("Order 7 exceeds 100");
+    });
+
+    it("should resolve dotted paths", () => {
+      expect(
+        formatMessage("User {user.id} in {user.org.name}", {
+          user: { id: 1, org: { name: "Acme" } },
+        })
+      ).toBe("User 1 in Acme");
+    });
+
+    it("should keep unknown placeholders", () => {
+      expect(formatMessage("Missing {value}", {})).toBe("Missing {value}");
+      expect(formatMessage("No {toString}")).toBe("No {toString}");
+    });
+  });
+
+  describe("locale catalogs", () => {
+    afterEach(() => {
+      unregisterLocale("de");
+      unregisterLocale("de-CH");
+    });
+
+    it("should resolve messages by error type", () => {
+      registerLocale("de", { NotFound: "{resource} nicht gefunden" });
+
+      expect(getLocaleMessage("NotFound", "de")).toBe(
+        "{resource} nicht gefunden"
+      );
+      expect(getLocaleMessage("Other", "de")).toBeUndefined();
+    });
+
+    it("should prefer regional locales and fall back to the language", () => {
+      registerLocale("de", { NotFound: "nicht gefunden", Timeout: "Zeit" });
+      registerLocale("de-CH", { NotFound: "nöd gfunde" });
+
+      expect(getLocaleMessage("NotFound", "de-CH")).toBe("nöd gfunde");
+      expect(getLocaleMessage("Timeout", "DE-ch")).toBe("Zeit");
+    });
+
+    it("should merge repeated registrations", () => {
+      registerLocale("de", { First: "erste" });
+      registerLocale("de", { Second: "zweite" });
+
+      expect(getLocaleMessage("First", "de")).toBe("erste");
+      expect(getLocaleMessage("Second", "de")).toBe("zweite");
+      expect(unregisterLocale("de")).toBe(true);
+      expect(getLocaleMessage("First", "de")).toBeUndefined();
+    });
+  });
+});
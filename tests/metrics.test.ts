@@ -0,0 +1,190 @@
+import {
+  ErrorMetrics,
+  getErrorMetrics,
+  resetErrorMetrics,
+} from "../src/metrics";
+import { createError } from "../src/errors";
+import { retry } from "../src/async";
+import { TryError, TRY_ERROR_BRAND } from "../src/types";
+import { configure, resetConfig } from "../src/config";
+import { flushErrorDedupe } from "../src/dedupe";
+import { getErrorHistory, resetErrorHistory } from "../src/history";
+
+const makeError = (
+  type: string,
+  source = "app.ts:1:1",
+  context?: Record<string, unknown>
+): TryError => ({
+  [TRY_ERROR_BRAND]: true,
+  type,
+  message: type,
+  source,
+  timestamp: 0,
+  context,
+});
+
+const flushEvents = () =>
+  new Promise((resolve) => process.nextTick(resolve));
+
+describe("Error Metrics", () => {
+  afterEach(() => {
+    resetErrorMetrics();
+    resetErrorHistory();
+    resetConfig();
+  });
+
+  describe("ErrorMetrics", () => {
+    it("should count errors by type, source and context labels", () => {
+      const metrics = new ErrorMetrics({
+        labels: ["tenant"],
+        includeSource: true,
+      });
+      metrics.recordError(makeError("NotFound", "a.ts:1:1", { tenant: "t1" }));
+      metrics.recordError(makeError("NotFound", "a.ts:1:1", { tenant: "t1" }));
+      metrics.recordError(makeError("NotFound", "b.ts:2:2"));
+
+      expect(metrics.toJSON().errors).toEqual([
+        {
+          labels: { type: "NotFound", source: "a.ts:1:1", tenant: "t1" },
+          value: 2,
+        },
+        {
+          labels: { type: "NotFound", source: "b.ts:2:2", tenant: "" },
+          value: 1,
+        },
+      ]);
+    });
+
+    it("should render the Prometheus text format", () => {
+      const metrics = new ErrorMetrics({ buckets: [0.001, 0.01] });
+      metrics.recordError(makeError('Bad"Quote'));
+      metrics.recordRetry(makeError("Timeout"));
+      metrics.recordRecovery(makeError("Timeout"));
+      metrics.recordCreationTime(makeError("Timeout"), 0.5);
+      metrics.recordCreationTime(makeError("Timeout"), 50);
+
+      const text = metrics.toPrometheus();
+
+      expect(text).toContain("# TYPE try_error_errors_total counter");
+      expect(text).toContain('try_error_errors_total{type="Bad\\"Quote"} 1');
+      expect(text).toContain('try_error_retries_total{type="Timeout"} 1');
+      expect(text).toContain('try_error_recoveries_total{type="Timeout"} 1');
+      expect(text).toContain("# TYPE try_error_creation_seconds histogram");
+      expect(text).toContain(
+        'try_error_creation_seconds_bucket{type="Timeout",le="0.001"} 1'
+      );
+      expect(text).toContain(
+        'try_error_creation_seconds_bucket{type="Timeout",le="0.01"} 1'
+      );
+      expect(text).toContain(
+        'try_error_creation_seconds_bucket{type="Timeout",le="+Inf"} 2'
+      );
+      expect(text).toContain(
+        'try_error_creation_seconds_count{type="Timeout"} 2'
+      );
+      expect(text.endsWith("\n")).toBe(true);
+    });
+
+    it("should render OpenMetrics", () => {
+      const metrics = new ErrorMetrics({ prefix: "app", includeSource: true });
+      metrics.recordError(makeError("A"));
+
+      const text = metrics.toPrometheus({ openMetrics: true });
+
+      expect(text).toContain("# TYPE app_errors counter");
+      expect(text).toContain(
+        'app_errors_total{type="A",source="app.ts:1:1"} 1'
+      );
+      expect(text.endsWith("# EOF\n")).toBe(true);
+    });
+
+    it("should reject invalid names", () => {
+      expect(() => new ErrorMetrics({ labels: ["tenant-id"] })).toThrow(
+        "Invalid metric label name: tenant-id"
+      );
+      expect(() => new ErrorMetrics({ labels: ["__name"] })).toThrow();
+      expect(() => new ErrorMetrics({ labels: ["type"] })).toThrow();
+      expect(() => new ErrorMetrics({ prefix: "my-app" })).toThrow(
+        "Invalid metric name prefix: my-app"
+      );
+    });
+
+    it("should cap label combinations", () => {
+      const metrics = new ErrorMetrics({ maxSeries: 2 });
+      for (const type of ["A", "B", "C", "D"]) {
+        metrics.recordError(makeError(type));
+      }
+
+      expect(metrics.toJSON().errors).toEqual([
+        { labels: { type: "A" }, value: 1 },
+        { labels: { type: "B" }, value: 1 },
+        { labels: { type: "other" }, value: 2 },
+      ]);
+    });
+  });
+
+  describe("getErrorMetrics", () => {
+    it("should record created errors and their creation time", async () => {
+      const metrics = getErrorMetrics();
+      createError({ type: "MetricError", message: "counted" });
+      await flushEvents();
+
+      const snapshot = metrics.toJSON();
+      expect(snapshot.errors).toEqual([
+        { labels: { type: "MetricError" }, value: 1 },
+      ]);
+      expect(snapshot.creationSeconds[0]).toMatchObject({
+        labels: { type: "MetricError" },
+        count: 1,
+      });
+    });
+
+    it("should count retries and recoveries from retry", async () => {
+      const metrics = getErrorMetrics();
+      let calls = 0;
+
+      await retry(
+        async () =>
+          ++calls < 3 ? createError({ type: "Flaky", message: "again" }) : "ok",
+        { attempts: 3, baseDelay: 1 }
+      );
+      await flushEvents();
+
+      const snapshot = metrics.toJSON();
+      expect(snapshot.retries).toEqual([
+        { labels: { type: "Flaky" }, value: 2 },
+      ]);
+      expect(snapshot.recoveries).toEqual([
+        { labels: { type: "Flaky" }, value: 1 },
+      ]);
+    });
+
+    it("should count repeats folded by the dedupe window", async () => {
+      const metrics = getErrorMetrics();
+      const history = getErrorHistory();
+      configure({ dedupeWindow: { windowMs: 10_000 } });
+
+      for (let i = 0; i < 100; i++) {
+        createError({ type: "Storm", message: "again" });
+      }
+      flushErrorDedupe();
+      await flushEvents();
+
+      expect(metrics.toJSON().errors).toEqual([
+        { labels: { type: "Storm" }, value: 100 },
+      ]);
+      expect(history.getCounts(Infinity).byType).toEqual({ Storm: 100 });
+    });
+
+    it("should stop recording after reset", async () => {
+      const metrics = getErrorMetrics();
+      resetErrorMetrics();
+
+      createError({ type: "Ignored", message: "not counted" });
+      await flushEvents();
+
+      expect(metrics.toJSON().errors).toEqual([]);
+      expect(getErrorMetrics()).not.toBe(metrics);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { Result, AsyncResult } from "../src/result";
+import { trySync } from "../src/sync";
+import { tryAsync } from "../src/async";
+import { createError } from "../src/errors";
+import { TryError, isTryError } from "../src/types";
+
+const asyncSuccess = async <T>(value: T) => value;
+const asyncError = async (message: string): Promise<never> => {
+  throw new Error(message);
+};
+
+describe("Fluent Result Wrappers", () => {
+  describe("Result", () => {
+    it("should wrap and unwrap a plain TryResult", () => {
+      const success = Result.from(trySync(() => 42));
+      expect(success.isOk()).toBe(true);
+      expect(success.toTryResult()).toBe(42);
+
+      const failure = Result.try(() => JSON.parse("invalid json"));
+      expect(failure.isErr()).toBe(true);
+      expect(isTryError(failure.toTryResult())).toBe(true);
+    });
+
+    it("should map success values and skip errors", () => {
+      const doubled = Result.from(trySync(() => 21)).map((n) => n * 2);
+      expect(doubled.toTryResult()).toBe(42);
+
+      const mapper = jest.fn();
+      const skipped = Result.try(() => JSON.parse("invalid json")).map(mapper);
+      expect(skipped.isErr()).toBe(true);
+      expect(mapper).not.toHaveBeenCalled();
+    });
+
+    it("should convert exceptions thrown by map into errors", () => {
+      const result = Result.from(trySync(() => 1)).map(() => {
+        throw new Error("Mapper failed");
+      });
+
+      const plain = result.toTryResult();
+      expect(isTryError(plain)).toBe(true);
+      if (isTryError(plain)) {
+        expect(plain.message).toBe("Mapper failed");
+      }
+    });
+
+    it("should flatMap over TryResults and Results", () => {
+      const fromPlain = Result.from(trySync(() => '{"value": 42}')).flatMap(
+        (json) => trySync(() => JSON.parse(json).value as number)
+      );
+      expect(fromPlain.toTryResult()).toBe(42);
+
+      const fromWrapper = Result.from(trySync(() => 2)).flatMap((n) =>
+        Result.from(trySync(() => n + 1))
+      );
+      expect(fromWrapper.toTryResult()).toBe(3);
+    });
+
+    it("should map errors to a typed error", () => {
+      const result = Result.try(() => JSON.parse("invalid json")).mapErr(
+        (error): TryError<"ConfigError"> =>
+          createError({
+            type: "ConfigError",
+            message: "Config is not valid JSON",
+            cause: error,
+          })
+      );
+
+      result.match({
+        ok: () => fail("Expected an error"),
+        err: (error) => {
+          expect(error.type).toBe("ConfigError");
+          expect(isTryError(error.cause)).toBe(true);
+        },
+      });
+    });
+
+    it("should recover from errors", () => {
+      const value = Result.try((): number => JSON.parse("invalid json"))
+        .recover((error) => error.message.length)
+        .toTryResult();
+
+      expect(typeof value).toBe("number");
+    });
+
+    it("should keep TryErrors returned by recover handlers as errors", () => {
+      const result = Result.try((): number => JSON.parse("invalid json"))
+        .recover((error) =>
+          createError({ type: "StillBroken", message: error.message })
+        )
+        .match({ ok: () => "ok", err: (error) => error.type });
+
+      expect(result).toBe("StillBroken");
+    });
+
+    it("should turn callback failures into errors instead of throwing", () => {
+      const boom = (): never => {
+        throw new Error("boom");
+      };
+      const failingFlatMap = Result.from(1).flatMap(boom).toTryResult();
+      const failingMapErr = Result.try(() => JSON.parse("invalid json"))
+        .mapErr(boom)
+        .toTryResult();
+      const failingRecover = Result.try(() => JSON.parse("invalid json"))
+        .recover(boom)
+        .toTryResult();
+
+      expect(isTryError(failingFlatMap) && failingFlatMap.message).toBe("boom");
+      expect(isTryError(failingMapErr) && failingMapErr.message).toBe("boom");
+      expect(isTryError(failingRecover) && failingRecover.message).toBe("boom");
+    });
+
+    it("should provide unwrapOr and match helpers", () => {
+      expect(Result.try(() => JSON.parse("invalid")).unwrapOr("default")).toBe(
+        "default"
+      );
+
+      const label = Result.from(trySync(() => 5)).match({
+        ok: (n) => `ok:${n}`,
+        err: (e) => `err:${e.type}`,
+      });
+      expect(label).toBe("ok:5");
+    });
+
+    it("should unwrap or throw a native Error", () => {
+      expect(Result.try(() => 5).orThrow()).toBe(5);
+      expect(() =>
+        Result.from(createError({ type: "Invalid", message: "bad" })).orThrow()
+      ).toThrow(expect.objectContaining({ name: "Invalid", message: "bad" }));
+    });
+  });
+
+  describe("AsyncResult", () => {
+    it("should await to the plain TryResult", async () => {
+      const result = await AsyncResult.try(() => asyncSuccess("data"));
+      expect(result).toBe("data");
+
+      const failure = await AsyncResult.try(() => asyncError("Fetch failed"));
+      expect(isTryError(failure)).toBe(true);
+    });
+
+    it("should chain async and sync mappers", async () => {
+      const result = await AsyncResult.from(tryAsync(() => asyncSuccess(10)))
+        .map(async (n) => n * 2)
+        .map((n) => `${n}`)
+        .toPromise();
+
+      expect(result).toBe("20");
+    });
+
+    it("should convert rejected mappers into errors", async () => {
+      const result = await AsyncResult.from(tryAsync(() => asyncSuccess(1))).map(
+        () => asyncError("Mapper rejected")
+      );
+
+      expect(isTryError(result)).toBe(true);
+      if (isTryError(result)) {
+        expect(result.message).toBe("Mapper rejected");
+      }
+    });
+
+    it("should flatMap over promises, Results and AsyncResults", async () => {
+      const result = await AsyncResult.from(tryAsync(() => asyncSuccess(1)))
+        .flatMap((n) => tryAsync(() => asyncSuccess(n + 1)))
+        .flatMap((n) => Result.from(trySync(() => n + 1)))
+        .flatMap((n) => AsyncResult.from(n + 1));
+
+      expect(result).toBe(4);
+    });
+
+    it("should short-circuit flatMap on errors", async () => {
+      const chainer = jest.fn();
+      const result = await AsyncResult.try(() =>
+        asyncError("Fetch failed")
+      ).flatMap(chainer);
+
+      expect(isTryError(result)).toBe(true);
+      expect(chainer).not.toHaveBeenCalled();
+    });
+
+    it("should mapErr and recover", async () => {
+      const mapped = await AsyncResult.try(() => asyncError("Fetch failed"))
+        .mapErr((error) =>
+          createError({ type: "NetworkError", message: error.message })
+        )
+        .match({
+          ok: () => "ok",
+          err: (error) => error.type,
+        });
+      expect(mapped).toBe("NetworkError");
+
+      const recovered = await AsyncResult.try(() =>
+        asyncError("Fetch failed")
+      ).recover(async () => "fallback");
+      expect(recovered).toBe("fallback");
+    });
+
+    it("should turn callback failures into errors instead of rejecting", async () => {
+      const failingFlatMap = await AsyncResult.from(1).flatMap(() =>
+        asyncError("chain failed")
+      );
+      const failingMapErr = await AsyncResult.try(() =>
+        asyncError("Fetch failed")
+      ).mapErr(() => {
+        throw new Error("mapper failed");
+      });
+      const failingRecover = await AsyncResult.try(() =>
+        asyncError("Fetch failed")
+      ).recover(() => asyncError("handler failed"));
+      const rejected = await AsyncResult.from(asyncError("source failed"));
+
+      expect(isTryError(failingFlatMap) && failingFlatMap.message).toBe(
+        "chain failed"
+      );
+      expect(isTryError(failingMapErr) && failingMapErr.message).toBe(
+        "mapper failed"
+      );
+      expect(isTryError(failingRecover) && failingRecover.message).toBe(
+        "handler failed"
+      );
+      expect(isTryError(rejected) && rejected.message).toBe("source failed");
+    });
+
+    it("should resolve unwrapOr to a default on error", async () => {
+      const value = await AsyncResult.try(() =>
+        asyncError("Fetch failed")
+      ).unwrapOr(0);
+      expect(value).toBe(0);
+    });
+
+    it("should resolve orThrow to the value or reject with a native Error", async () => {
+      await expect(
+        AsyncResult.try(() => asyncSuccess(3)).orThrow()
+      ).resolves.toBe(3);
+      await expect(
+        AsyncResult.try(() => asyncError("Fetch failed")).orThrow()
+      ).rejects.toThrow("Fetch failed");
+    });
+
+    it("should continue a sync Result asynchronously", async () => {
+      const result = await Result.from(trySync(() => 2))
+        .toAsync()
+        .map(async (n) => n * 3);
+
+      expect(result).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { transformSync } from "esbuild";
+import {
+  resolveSourceMaps,
+  createSourceMapResolver,
+  clearSourceMapCache,
+} from "../src/sourcemap";
+import { createError, fromThrown } from "../src/errors";
+import { configure, resetConfig } from "../src/config";
+
+// Type annotations and the interface are stripped, so compiled positions
+// differ from the original ones
+const ORIGINAL = [
+  "interface Order {",
+  "  id: number;",
+  "}",
+  "",
+  "export function failOrder(order: Order): never {",
+  "  throw new Error(`Order ${order.id} failed`);",
+  "}",
+].join("\n");
+
+describe("Source Map Resolution", () => {
+  let dir: string;
+  let compiledFile: string;
+  let compiled: string;
+
+  // 1-based position of `text` in the compiled output
+  const positionOf = (text: string) => {
+    const lines = compiled.split("\n");
+    const line = lines.findIndex((candidate) => candidate.includes(text));
+    return { line: line + 1, column: lines[line].indexOf(text) + 1 };
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "try-error-maps-"));
+    fs.mkdirSync(path.join(dir, "src"));
+    fs.mkdirSync(path.join(dir, "dist"));
+    compiledFile = path.join(dir, "dist", "orders.js");
+
+    const result = transformSync(ORIGINAL, {
+      loader: "ts",
+      format: "cjs",
+      sourcemap: "external",
+      sourcefile: "../src/orders.ts",
+    });
+    compiled = result.code;
+    fs.writeFileSync(compiledFile, compiled);
+    fs.writeFileSync(`${compiledFile}.map`, result.map);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    resetConfig();
+    clearSourceMapCache();
+  });
+
+  it("should resolve short sources through mapDir", () => {
+    const { line, column } = positionOf("throw new Error");
+    const error = createError({
+      type: "OrderError",
+      message: "failed",
+      source: `orders.js:${line}:${column}`,
+    });
+
+    const resolved = resolveSourceMaps(error, {
+      mapDir: path.join(dir, "dist"),
+    });
+
+    expect(resolved.source).toBe("orders.ts:6:3");
+    expect(error.source).toBe(`orders.js:${line}:${column}`);
+  });
+
+  it("should rewrite stack frames of compiled code", () => {
+    const { failOrder } = require(compiledFile);
+    let thrown: unknown;
+    try {
+      failOrder({ id: 7 });
+    } catch (error) {
+      thrown = error;
+    }
+
+    const error = { ...fromThrown(thrown), stack: (thrown as Error).stack };
+    const resolved = resolveSourceMaps(error);
+
+    expect(resolved.stack).toContain(
+      `at failOrder (${path.join(dir, "src", "orders.ts")}:6:9)`
+    );
+    expect(resolved.stack).not.toContain(compiledFile);
+  });
+
+  it("should rewrite Firefox and Safari stack frames", () => {
+    const { line, column } = positionOf("throw new Error");
+    const error = {
+      ...createError({ type: "GeckoError", message: "failed" }),
+      stack: `failOrder@${compiledFile}:${line}:${column}\nmap@[native code]`,
+    };
+
+    const resolved = resolveSourceMaps(error);
+
+    expect(resolved.stack).toBe(
+      `failOrder@${path.join(dir, "src", "orders.ts")}:6:3\nmap@[native code]`
+    );
+  });
+
+  it("should find file-name sources through the stack", () => {
+    const { line, column } = positionOf("throw new Error");
+    const error = {
+      ...createError({
+        type: "OrderError",
+        message: "failed",
+        source: `orders.js:${line}:${column}`,
+      }),
+      stack: [
+        "OrderError: failed",
+        `    at failOrder (${compiledFile}:${line}:${column})`,
+      ].join("\n"),
+    };
+
+    expect(resolveSourceMaps(error).source).toBe("orders.ts:6:3");
+  });
+
+  it("should read preloaded maps when the resolver is created", () => {
+    const mapDir = path.join(dir, "preloaded");
+    fs.mkdirSync(mapDir);
+    const mapFile = path.join(mapDir, "orders.js.map");
+    fs.copyFileSync(`${compiledFile}.map`, mapFile);
+
+    const resolver = createSourceMapResolver({
+      mapDir,
+      preload: ["orders.js"],
+    });
+    fs.rmSync(mapFile);
+
+    expect(
+      resolver({ file: "orders.js", ...positionOf("throw new Error") })?.line
+    ).toBe(6);
+  });
+
+  it("should leave positions without maps unchanged", () => {
+    const error = createError({
+      type: "PlainError",
+      message: "no map",
+      source: "unmapped.js:1:1",
+    });
+
+    const resolved = resolveSourceMaps(error, {
+      mapDir: path.join(dir, "dist"),
+    });
+
+    expect(resolved.source).toBe("unmapped.js:1:1");
+    expect(resolved.stack).toBe(error.stack);
+  });
+
+  it("should cache parsed maps until the cache is cleared", () => {
+    const mapDir = path.join(dir, "maps");
+    fs.mkdirSync(mapDir);
+    fs.copyFileSync(`${compiledFile}.map`, path.join(mapDir, "orders.js.map"));
+    const resolver = createSourceMapResolver({ mapDir });
+    const position = { file: "orders.js", ...positionOf("throw new Error") };
+
+    expect(resolver(position)?.line).toBe(6);
+
+    fs.writeFileSync(path.join(mapDir, "orders.js.map"), "not a map");
+    expect(resolver(position)?.line).toBe(6);
+
+    clearSourceMapCache();
+    expect(resolver(position)).toBeUndefined();
+  });
+
+  it("should resolve created errors lazily with sourceMapResolver", () => {
+    const resolver = jest.fn(
+      createSourceMapResolver({ mapDir: path.join(dir, "dist") })
+    );
+    configure({ sourceMapResolver: resolver });
+    const { line, column } = positionOf("throw new Error");
+
+    const error = createError({
+      type: "LazyError",
+      message: "resolved on access",
+      source: `orders.js:${line}:${column}`,
+    });
+
+    expect(resolver).not.toHaveBeenCalled();
+    expect(error.source).toBe("orders.ts:6:3");
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  parseStack,
+  parseStackFrame,
+  filterStackFrames,
+  formatStackFrame,
+  createStackFormatter,
+} from "../src/stack";
+import { createError } from "../src/errors";
+import { configure, resetConfig } from "../src/config";
+
+const V8_STACK = [
+  "Error: Request failed",
+  "    at loadUser (/app/src/users.ts:12:11)",
+  "    at async Promise.all (index 0)",
+  "    at Object.<anonymous> (/app/node_modules/express/lib/router.js:45:3)",
+  "    at /app/src/server.ts:8:5",
+  "    at Array.map (native)",
+  "    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)",
+  "    at eval (eval at compile (/app/src/template.ts:3:7), <anonymous>:1:1)",
+].join("\n");
+
+const FIREFOX_STACK = [
+  "loadUser@https://app.example.com/users.js:12:11",
+  "async*handler@https://app.example.com/server.js:8:5",
+  "@https://app.example.com/main.js:1:1",
+].join("\n");
+
+const SAFARI_STACK = [
+  "loadUser@https://app.example.com/users.js:12:11",
+  "map@[native code]",
+  "global code@https://app.example.com/main.js:1:1",
+].join("\n");
+
+describe("Stack Frames", () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  describe("parseStack", () => {
+    it("should parse V8 stacks", () => {
+      const frames = parseStack(V8_STACK);
+
+      expect(frames).toHaveLength(7);
+      expect(frames[0]).toMatchObject({
+        functionName: "loadUser",
+        file: "/app/src/users.ts",
+        line: 12,
+        column: 11,
+        isNative: false,
+        isNodeModules: false,
+        isAsync: false,
+      });
+      expect(frames[1]).toMatchObject({
+        functionName: "Promise.all",
+        isAsync: true,
+        line: undefined,
+      });
+      expect(frames[2].isNodeModules).toBe(true);
+      expect(frames[3]).toMatchObject({
+        functionName: undefined,
+        file: "/app/src/server.ts",
+        line: 8,
+      });
+      expect(frames[4]).toMatchObject({ file: "native", isNative: true });
+      expect(frames[5].isNative).toBe(true);
+      expect(frames[6]).toMatchObject({
+        functionName: "eval",
+        file: "/app/src/template.ts",
+        line: 3,
+        column: 7,
+      });
+    });
+
+    it("should parse Firefox stacks", () => {
+      const frames = parseStack(FIREFOX_STACK);
+
+      expect(frames).toHaveLength(3);
+      expect(frames[0]).toMatchObject({
+        functionName: "loadUser",
+        file: "https://app.example.com/users.js",
+        line: 12,
+        column: 11,
+      });
+      expect(frames[1]).toMatchObject({
+        functionName: "handler",
+        isAsync: true,
+      });
+      expect(frames[2].functionName).toBeUndefined();
+    });
+
+    it("should parse Safari stacks", () => {
+      const frames = parseStack(SAFARI_STACK);
+
+      expect(frames.map((frame) => frame.functionName)).toEqual([
+        "loadUser",
+        "map",
+        "global code",
+      ]);
+      expect(frames[1]).toMatchObject({ file: "native", isNative: true });
+    });
+
+    it("should parse the stacks of errors and TryErrors", () => {
+      const tryError = createError({ type: "StackError", message: "boom" });
+
+      expect(parseStack(new Error("native"))[0].file).toContain("stack.test");
+      expect(parseStack(tryError).length).toBeGreaterThan(0);
+      expect(parseStack({})).toEqual([]);
+      expect(parseStackFrame("TypeError: not a frame")).toBeNull();
+    });
+  });
+
+  describe("filters", () => {
+    it("should hide node_modules and native frames and apply limits", () => {
+      const frames = parseStack(V8_STACK, {
+        hideNodeModules: true,
+        hideNative: true,
+        limit: 2,
+      });
+
+      expect(frames.map((frame) => frame.file)).toEqual([
+        "/app/src/users.ts",
+        "index 0",
+      ]);
+    });
+
+    it("should hide try-error internals", () => {
+      const error = createError({ type: "InternalError", message: "x" });
+      const all = parseStack(error);
+      const visible = parseStack(error, { hideInternals: true });
+
+      expect(all.some((frame) => frame.file.includes("errors.ts"))).toBe(true);
+      expect(visible.some((frame) => frame.file.includes("errors.ts"))).toBe(
+        false
+      );
+      expect(visible[0].file).toContain("stack.test");
+    });
+  });
+
+  describe("formatting", () => {
+    it("should format frames as V8 stack lines", () => {
+      const frames = parseStack(FIREFOX_STACK);
+
+      expect(formatStackFrame(frames[0])).toBe(
+        "    at loadUser (https://app.example.com/users.js:12:11)"
+      );
+      expect(formatStackFrame(frames[1])).toBe(
+        "    at async handler (https://app.example.com/server.js:8:5)"
+      );
+      expect(formatStackFrame(filterStackFrames(parseStack(V8_STACK))[3])).toBe(
+        "    at /app/src/server.ts:8:5"
+      );
+    });
+
+    it("should format stacks of created errors with stackFormatter", () => {
+      configure({
+        captureStackTrace: true,
+        stackFormatter: createStackFormatter({ hideInternals: true, limit: 1 }),
+      });
+
+      const error = createError({ type: "FormattedError", message: "short" });
+      const lines = error.stack!.split("\n");
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toBe("FormattedError: short");
+      expect(lines[1]).toContain("stack.test.ts");
+    });
+
+    it("should drop stacks when the formatter returns undefined", () => {
+      configure({ captureStackTrace: true, stackFormatter: () => undefined });
+
+      expect(
+        createError({ type: "NoStack", message: "dropped" }).stack
+      ).toBeUndefined();
+    });
+  });
+});
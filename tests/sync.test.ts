@@ -4,15 +4,21 @@ import {
   tryCall,
   tryMap,
   tryChain,
+  tryGen,
   unwrap,
   unwrapOr,
   unwrapOrElse,
+  throwIfError,
+  orThrow,
   isOk,
   isErr,
   tryAll,
   tryAny,
+  recover,
   TrySyncOptions,
 } from "../src/sync";
+import { createError, fromThrown, NativeTryError } from "../src/errors";
+import { TryError, TryResult } from "../src/types";
 
 describe("Synchronous Error Handling", () => {
   describe("trySync", () => {
@@ -217,6 +223,88 @@ describe("Synchronous Error Handling", () => {
     });
   });
 
+  describe("tryGen", () => {
+    type NotFound = TryError<"NotFound">;
+    type OutOfStock = TryError<"OutOfStock">;
+
+    const getUser = (id: string): TryResult<{ id: string }, NotFound> =>
+      id === "missing"
+        ? createError({ type: "NotFound", message: `User ${id} not found` })
+        : { id };
+
+    const placeOrder = (
+      user: { id: string },
+      sku: string
+    ): TryResult<{ user: string; sku: string }, OutOfStock> =>
+      sku === "sold-out"
+        ? createError({ type: "OutOfStock", message: `${sku} unavailable` })
+        : { user: user.id, sku };
+
+    it("should return the generator result when every step succeeds", () => {
+      const result = tryGen(function* ($) {
+        const user = yield* $(getUser("u1"));
+        const order = yield* $(placeOrder(user, "book"));
+        return order;
+      });
+
+      expect(isOk(result)).toBe(true);
+      expect(result).toEqual({ user: "u1", sku: "book" });
+    });
+
+    it("should short-circuit on the first error", () => {
+      const placeOrderSpy = jest.fn(placeOrder);
+
+      const result = tryGen(function* ($) {
+        const user = yield* $(getUser("missing"));
+        return yield* $(placeOrderSpy(user, "book"));
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.type).toBe("NotFound");
+      }
+      expect(placeOrderSpy).not.toHaveBeenCalled();
+    });
+
+    it("should infer the union of yielded error types", () => {
+      const result = tryGen(function* ($) {
+        const user = yield* $(getUser("u1"));
+        return yield* $(placeOrder(user, "sold-out"));
+      });
+
+      if (isErr(result)) {
+        // Exhaustive over the inferred union
+        const type: "NotFound" | "OutOfStock" = result.type;
+        expect(type).toBe("OutOfStock");
+      } else {
+        fail("Expected an error result");
+      }
+    });
+
+    it("should run finally blocks when short-circuiting", () => {
+      const cleanup = jest.fn();
+
+      const result = tryGen(function* ($) {
+        try {
+          return yield* $(getUser("missing"));
+        } finally {
+          cleanup();
+        }
+      });
+
+      expect(isErr(result)).toBe(true);
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not catch exceptions thrown in the body", () => {
+      expect(() =>
+        tryGen(function* () {
+          throw new Error("boom");
+        })
+      ).toThrow("boom");
+    });
+  });
+
   describe("unwrap", () => {
     it("should return success value", () => {
       const result = trySync(() => "success");
@@ -283,6 +371,32 @@ describe("Synchronous Error Handling", () => {
     });
   });
 
+  describe("throwIfError and orThrow", () => {
+    it("should narrow and return success values", () => {
+      const result = trySync(() => ({ id: 1 }));
+
+      throwIfError(result);
+      expect(result.id).toBe(1);
+      expect(orThrow(trySync(() => "success"))).toBe("success");
+    });
+
+    it("should throw the error as a native Error", () => {
+      const error = createError({
+        type: "BoundaryError",
+        message: "crossed a throw boundary",
+      });
+
+      expect(() => throwIfError(error)).toThrow(NativeTryError);
+      try {
+        orThrow(error);
+        fail("Expected orThrow to throw");
+      } catch (thrown) {
+        expect((thrown as Error).name).toBe("BoundaryError");
+        expect(fromThrown(thrown)).toBe(error);
+      }
+    });
+  });
+
   describe("isOk and isErr", () => {
     it("should correctly identify success", () => {
       const result = trySync(() => "success");
@@ -338,6 +452,37 @@ describe("Synchronous Error Handling", () => {
         expect(results).toEqual([]);
       }
     });
+
+    it("should collect every failure with collectAll", () => {
+      const results = tryAll(
+        [
+          trySync(() => JSON.parse("invalid")),
+          trySync(() => 2),
+          trySync(() => {
+            throw new TypeError("Not a function");
+          }),
+        ],
+        { collectAll: true }
+      );
+
+      expect(isErr(results)).toBe(true);
+      if (isErr(results)) {
+        expect(results.type).toBe("AggregateError");
+        expect(results.message).toBe("2 of 3 operations failed");
+        expect(results.errors.map((error) => error.type)).toEqual([
+          "SyntaxError",
+          "TypeError",
+        ]);
+      }
+    });
+
+    it("should succeed with collectAll when nothing fails", () => {
+      const results = tryAll([trySync(() => 1), trySync(() => "two")], {
+        collectAll: true,
+      });
+
+      expect(results).toEqual([1, "two"]);
+    });
   });
 
   describe("tryAny", () => {
@@ -429,4 +574,65 @@ describe("Synchronous Error Handling", () => {
       }
     });
   });
+
+  describe("recover", () => {
+    type NetworkError = TryError<"NetworkError">;
+    type TimeoutError = TryError<"TimeoutError">;
+    type AuthError = TryError<"AuthError">;
+
+    const failWith = (
+      type: "NetworkError" | "TimeoutError" | "AuthError"
+    ): TryResult<string, NetworkError | TimeoutError | AuthError> =>
+      createError({ type, message: `${type} occurred` }) as
+        | NetworkError
+        | TimeoutError
+        | AuthError;
+
+    it("should recover handled error types", () => {
+      const result = recover(failWith("NetworkError"), {
+        NetworkError: (error) => `cached after ${error.type}`,
+        TimeoutError: () => "default",
+      });
+
+      expect(result).toBe("cached after NetworkError");
+    });
+
+    it("should pass unhandled errors through unchanged", () => {
+      const original = failWith("AuthError");
+      const result = recover(original, {
+        NetworkError: () => "cached",
+      });
+
+      expect(result).toBe(original);
+    });
+
+    it("should leave success values untouched", () => {
+      const handler = jest.fn();
+      expect(recover(trySync(() => "value"), { Error: handler })).toBe("value");
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should remove handled types from the error union", () => {
+      const result = recover(failWith("TimeoutError"), {
+        NetworkError: () => 0,
+        TimeoutError: () => 1,
+      });
+
+      if (isErr(result)) {
+        // Only AuthError remains in the union
+        const type: "AuthError" = result.type;
+        expect(type).toBe("AuthError");
+      } else {
+        const value: string | number = result;
+        expect(value).toBe(1);
+      }
+    });
+
+    it("should reject handlers for types outside the union", () => {
+      recover(failWith("AuthError"), {
+        // @ts-expect-error - "ParseError" is not part of the error union
+        ParseError: () => "never",
+      });
+    });
+  });
 });
@@ -0,0 +1,221 @@
+import * as ts from "typescript";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { build } from "esbuild";
+import {
+  createSourceTransformer,
+  injectSourceLocations,
+} from "../src/transformer";
+import { sourceInjectionPlugin } from "../src/esbuild-plugin";
+import { createError, wrapError, fromThrown } from "../src/errors";
+import { createEntityError } from "../src/factories";
+
+describe("Source Location Injection", () => {
+  describe("createSourceTransformer", () => {
+    const transpile = (code: string, rootDir?: string) =>
+      ts.transpileModule(code, {
+        fileName: "/project/src/services/orders.ts",
+        compilerOptions: { target: ts.ScriptTarget.ES2020 },
+        transformers: { before: [createSourceTransformer({ rootDir })] },
+      }).outputText;
+
+    it("should inject sources into createError options", () => {
+      const output = transpile(
+        [
+          'import { createError } from "@try-error/core";',
+          'const error = createError({ type: "NotFound", message: "x" });',
+        ].join("\n")
+      );
+
+      expect(output).toContain('source: "orders.ts:2:15"');
+    });
+
+    it("should only rewrite calls bound to try-error imports", () => {
+      const output = transpile(
+        [
+          'import { createError as fail } from "@try-error/core/sync";',
+          'import * as te from "try-error";',
+          'import { createError } from "./local";',
+          'fail({ type: "A", message: "a" });',
+          'te.wrapError("B", cause);',
+          'createError({ type: "C", message: "c" });',
+          'this.createError({ type: "D", message: "d" });',
+          'someLib.createError({ type: "E", message: "e" });',
+        ].join("\n")
+      );
+
+      expect(output).toContain('source: "orders.ts:4:1"');
+      expect(output).toContain(
+        'te.wrapError("B", cause, undefined, undefined, "orders.ts:5:1")'
+      );
+      expect(output.match(/source: /g)).toHaveLength(1);
+    });
+
+    it("should rewrite factories and catalogs defined in the file", () => {
+      const output = transpile(
+        [
+          'const te = require("try-error");',
+          'const createPaymentError = te.createErrorFactory({ type: "P" });',
+          "const Errors = te.defineErrorCatalog({ Missing: {} });",
+          'createPaymentError("Declined", "no", {});',
+          "Errors.factories.Missing();",
+          "Errors.factories.Missing({ id: 1 }, { retryable: true });",
+        ].join("\n")
+      );
+
+      expect(output).toContain('{}, { source: "orders.ts:4:1" })');
+      expect(output).toContain(
+        'Errors.factories.Missing(undefined, { source: "orders.ts:5:1" })'
+      );
+      expect(output).toContain(
+        '{ source: "orders.ts:6:1", retryable: true }'
+      );
+    });
+
+    it("should append positional sources and pad optional arguments", () => {
+      const output = transpile(
+        [
+          'import { wrapError, fromThrown } from "try-error";',
+          'wrapError("DbError", cause);',
+          "fromThrown(error, { id: 1 });",
+        ].join("\n")
+      );
+
+      expect(output).toContain(
+        'wrapError("DbError", cause, undefined, undefined, "orders.ts:2:1")'
+      );
+      expect(output).toContain('fromThrown(error, { id: 1 }, "orders.ts:3:1")');
+    });
+
+    it("should use paths relative to rootDir", () => {
+      const output = transpile(
+        [
+          'import { createError } from "try-error";',
+          'createError({ type: "A", message: "a" });',
+        ].join("\n"),
+        "/project/src"
+      );
+
+      expect(output).toContain('source: "services/orders.ts:2:1"');
+    });
+
+    it("should keep explicit sources and non-literal options", () => {
+      const output = transpile(
+        [
+          'import { createError } from "try-error";',
+          'createError({ type: "A", message: "a", source: "custom" });',
+          "createError(options);",
+        ].join("\n")
+      );
+
+      expect(output).not.toContain("orders.ts");
+    });
+  });
+
+  describe("injectSourceLocations", () => {
+    it("should insert sources without moving code", () => {
+      const code = [
+        'import { createError, createEntityError } from "@try-error/core";',
+        "export function load(id: string) {",
+        '  return createEntityError("user", id, "UserNotFound", "missing");',
+        "}",
+        "const e = createError({});",
+      ].join("\n");
+
+      const output = injectSourceLocations(code, "/app/user.ts");
+
+      expect(output.split("\n")).toHaveLength(5);
+      expect(output).toContain('"missing", { source: "user.ts:3:10" });');
+      expect(output).toContain('createError({ source: "user.ts:5:11" });');
+    });
+
+    it("should support custom factory targets and trailing commas", () => {
+      const code = [
+        "createPaymentError(",
+        '  "CardDeclined",',
+        '  "declined",',
+        "  { transactionId },",
+        ");",
+      ].join("\n");
+
+      const output = injectSourceLocations(code, "pay.ts", {
+        targets: { createPaymentError: { kind: "options", index: 3 } },
+      });
+
+      expect(output).toContain('{ transactionId }, { source: "pay.ts:1:1" }');
+      expect(
+        ts.transpileModule(output, { reportDiagnostics: true }).diagnostics
+      ).toEqual([]);
+    });
+
+    it("should return code without target calls unchanged", () => {
+      const code = "const value = compute();";
+      expect(injectSourceLocations(code, "plain.ts")).toBe(code);
+    });
+
+    it("should match imports from configured modules", () => {
+      const code = [
+        'import { createError } from "@acme/errors";',
+        'createError({ type: "A", message: "a" });',
+      ].join("\n");
+
+      expect(injectSourceLocations(code, "a.ts")).toBe(code);
+      expect(
+        injectSourceLocations(code, "a.ts", { modules: ["@acme/errors"] })
+      ).toContain('source: "a.ts:2:1"');
+    });
+  });
+
+  describe("sourceInjectionPlugin", () => {
+    it("should inject sources while esbuild loads files", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "try-error-"));
+      const entry = path.join(dir, "entry.ts");
+      fs.writeFileSync(
+        entry,
+        [
+          'import { createError } from "try-error";',
+          'export const error = createError({ type: "A", message: "a" });',
+        ].join("\n")
+      );
+
+      try {
+        const result = await build({
+          entryPoints: [entry],
+          bundle: true,
+          write: false,
+          format: "esm",
+          external: ["try-error"],
+          plugins: [sourceInjectionPlugin()],
+        });
+
+        expect(result.outputFiles[0].text).toContain(
+          'source: "entry.ts:2:22",'
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("runtime", () => {
+    it("should use injected sources instead of parsing stacks", () => {
+      expect(
+        wrapError("Wrapped", new Error("a"), undefined, undefined, "w.ts:1:1")
+          .source
+      ).toBe("w.ts:1:1");
+      expect(fromThrown(new Error("b"), undefined, "f.ts:2:2").source).toBe(
+        "f.ts:2:2"
+      );
+      expect(
+        createEntityError("user", "1", "UserNotFound", "missing", {
+          source: "e.ts:3:3",
+        }).source
+      ).toBe("e.ts:3:3");
+      expect(
+        createError({ type: "Injected", message: "c", source: "c.ts:4:4" })
+          .source
+      ).toBe("c.ts:4:4");
+    });
+  });
+});
@@ -20,7 +20,11 @@ import {
   ErrorSampling,
   correlateErrors,
   getErrorFingerprint,
+  getCauseChain,
+  findCause,
+  getRootCause,
 } from "../src/utils";
+import { registerLocale, unregisterLocale } from "../src/messages";
 import { createError } from "../src/errors";
 import { trySync } from "../src/sync";
 import { TryError, TryResult, isTryError } from "../src/types";
@@ -144,6 +148,28 @@ describe("Error Utilities", () => {
         expect(getErrorMessage(null, "Custom fallback")).toBe(
           "Custom fallback"
         );
+        expect(getErrorMessage(null, { fallback: "Custom fallback" })).toBe(
+          "Custom fallback"
+        );
+      });
+
+      it("should translate TryError messages for a locale", () => {
+        registerLocale("fr", {
+          QuotaExceeded: "Quota de {limit} requêtes dépassé",
+        });
+        const error = createError({
+          type: "QuotaExceeded",
+          message: "Quota of 100 requests exceeded",
+          context: { limit: 100 },
+        });
+
+        expect(getErrorMessage(error, { locale: "fr-CA" })).toBe(
+          "Quota de 100 requêtes dépassé"
+        );
+        expect(getErrorMessage(error, { locale: "es" })).toBe(
+          "Quota of 100 requests exceeded"
+        );
+        unregisterLocale("fr");
       });
     });
 
@@ -339,6 +365,7 @@ describe("Error Utilities", () => {
         expect(combined.message).toBe("3 errors occurred");
         expect(combined.context?.errorCount).toBe(3);
         expect(combined.context?.errors).toHaveLength(3);
+        expect(combined.errors).toEqual(errors);
       });
 
       it("should handle empty error array", () => {
@@ -370,6 +397,136 @@ describe("Error Utilities", () => {
     });
   });
 
+  describe("Cause Chain Utilities", () => {
+    // Built once: createError caches by type/message/context, not by cause
+    const chain = (() => {
+      const root = new TypeError("socket closed");
+      const native = Object.assign(new Error("request failed"), {
+        cause: root,
+      });
+      const network = createError({
+        type: "NetworkError",
+        message: "Network unavailable",
+        cause: native,
+      });
+      const top = createError({
+        type: "FetchUserError",
+        message: "Could not load user",
+        cause: network,
+      });
+      return { root, native, network, top };
+    })();
+
+    const createAggregate = (errors: unknown[], message: string): Error =>
+      Object.assign(new Error(message), { name: "AggregateError", errors });
+
+    describe("getCauseChain", () => {
+      it("should walk TryError and native Error causes", () => {
+        const { root, native, network, top } = chain;
+        expect(getCauseChain(top)).toEqual([top, network, native, root]);
+      });
+
+      it("should descend into aggregated errors", () => {
+        const first = new Error("first");
+        const second = createError({ type: "SecondError", message: "second" });
+        const aggregate = createAggregate([first, second], "many failures");
+
+        expect(getCauseChain(aggregate)).toEqual([aggregate, first, second]);
+      });
+
+      it("should stop on cycles", () => {
+        const a = new Error("a") as Error & { cause?: unknown };
+        const b = new Error("b") as Error & { cause?: unknown };
+        a.cause = b;
+        b.cause = a;
+
+        expect(getCauseChain(a)).toEqual([a, b]);
+      });
+
+      it("should return just the value when there is no cause", () => {
+        expect(getCauseChain("plain")).toEqual(["plain"]);
+      });
+    });
+
+    describe("findCause", () => {
+      it("should find a cause by TryError type", () => {
+        const { network, top } = chain;
+        const found = findCause(top, "NetworkError");
+
+        expect(found).toBe(network);
+        expect(found?.type).toBe("NetworkError");
+      });
+
+      it("should find a cause by constructor", () => {
+        const { root, top } = chain;
+        const found = findCause(top, TypeError);
+
+        expect(found).toBe(root);
+        expect(found?.message).toBe("socket closed");
+      });
+
+      it("should search inside aggregated errors", () => {
+        const inner = createError({ type: "DbError", message: "db down" });
+        const aggregate = createAggregate([new Error("x"), inner], "batch");
+
+        expect(findCause(aggregate, "DbError")).toBe(inner);
+      });
+
+      it("should return undefined when nothing matches", () => {
+        const { top } = chain;
+        expect(findCause(top, "MissingError")).toBeUndefined();
+        expect(findCause(top, RangeError)).toBeUndefined();
+      });
+    });
+
+    describe("getRootCause", () => {
+      it("should return the deepest cause", () => {
+        const { root, top } = chain;
+        expect(getRootCause(top)).toBe(root);
+      });
+
+      it("should return the error itself when it has no cause", () => {
+        const error = createError({ type: "Alone", message: "no cause" });
+        expect(getRootCause(error)).toBe(error);
+      });
+
+      it("should terminate on cycles", () => {
+        const a = new Error("a") as Error & { cause?: unknown };
+        const b = new Error("b") as Error & { cause?: unknown };
+        a.cause = b;
+        b.cause = a;
+
+        expect(getRootCause(a)).toBe(b);
+      });
+    });
+
+    describe("formatting", () => {
+      it("should render the full chain in formatErrorForLogging", () => {
+        const { top } = chain;
+        const formatted = formatErrorForLogging(top, {
+          includeCauseChain: true,
+        });
+
+        expect(formatted).toContain("Cause chain:");
+        expect(formatted).toContain("1. [NetworkError] Network unavailable");
+        expect(formatted).toContain("2. Error: request failed");
+        expect(formatted).toContain("3. TypeError: socket closed");
+        expect(formatted).not.toContain("Cause: ");
+      });
+
+      it("should render causes in createErrorReport", () => {
+        const { top } = chain;
+        const report = createErrorReport([top], { includeCauseChain: true });
+
+        expect(report).toContain("1. [FetchUserError] Could not load user");
+        expect(report).toContain(
+          "caused by: [NetworkError] Network unavailable"
+        );
+        expect(report).toContain("caused by: TypeError: socket closed");
+      });
+    });
+  });
+
   describe("Debugging Utilities", () => {
     describe("formatErrorForLogging", () => {
       it("should format error with basic info", () => {
@@ -397,6 +554,22 @@ describe("Error Utilities", () => {
         expect(formatted).toContain("123");
       });
 
+      it("should list aggregated errors", () => {
+        const combined = combineErrors(
+          [
+            createError({ type: "ValidationError", message: "Bad email" }),
+            createError({ type: "ValidationError", message: "Bad phone" }),
+          ],
+          "FormError",
+          "Form is invalid"
+        );
+
+        const formatted = formatErrorForLogging(combined);
+        expect(formatted).toContain("Errors (2):");
+        expect(formatted).toContain("1. [ValidationError] Bad email");
+        expect(formatted).toContain("2. [ValidationError] Bad phone");
+      });
+
       it("should include stack when requested", () => {
         const error = createError({
           type: "TestError",
@@ -712,6 +885,19 @@ describe("Error Utilities", () => {
 
   describe("Error Fingerprinting", () => {
     describe("getErrorFingerprint", () => {
+      it("should include aggregate members regardless of order", () => {
+        const a = createError({ type: "AError", message: "a" });
+        const b = createError({ type: "BError", message: "b" });
+
+        const first = getErrorFingerprint(combineErrors([a, b], "Batch", "x"));
+        const second = getErrorFingerprint(combineErrors([b, a], "Batch", "x"));
+        const other = getErrorFingerprint(combineErrors([a], "Batch", "x"));
+
+        expect(first).toBe("Batch|x|[AError|a,BError|b]");
+        expect(second).toBe(first);
+        expect(other).not.toBe(first);
+      });
+
       it("should create fingerprint from default fields", () => {
         const error = createError({
           type: "TestError",
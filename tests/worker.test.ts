@@ -0,0 +1,151 @@
+import {
+  toTransferable,
+  fromTransferable,
+  tryInWorker,
+} from "../src/worker";
+import { createError, createAggregateError } from "../src/errors";
+import { isTryError, TryError } from "../src/types";
+
+describe("Cross-thread Transfer", () => {
+  describe("toTransferable / fromTransferable", () => {
+    it("should restore the brand after structured cloning", () => {
+      const error = createError({
+        type: "TransferError",
+        message: "crossed threads",
+        context: { id: 1 },
+      });
+
+      const received = structuredClone(toTransferable(error));
+      expect(isTryError(received)).toBe(false);
+
+      const revived = fromTransferable(received);
+      expect(isTryError(revived)).toBe(true);
+      expect(revived?.type).toBe("TransferError");
+      expect(revived?.context).toEqual({ id: 1 });
+      expect(revived?.stack).toBe(error.stack);
+      expect(revived?.source).toBe(error.source);
+    });
+
+    it("should rebrand nested causes and aggregate members", () => {
+      const inner = createError({ type: "Inner", message: "inner failure" });
+      const outer = createError({
+        type: "Outer",
+        message: "outer failure",
+        cause: inner,
+      });
+      const aggregate = createAggregateError([outer]);
+
+      const revived = fromTransferable(
+        structuredClone(toTransferable(aggregate))
+      ) as TryError & { errors: TryError[] };
+
+      expect(isTryError(revived.errors[0])).toBe(true);
+      expect(isTryError(revived.errors[0].cause)).toBe(true);
+      expect((revived.errors[0].cause as TryError).type).toBe("Inner");
+    });
+
+    it("should preserve cycles", () => {
+      const cyclic: TryError & { cause?: unknown } = {
+        ...createError({ type: "Cyclic", message: "cyclic failure" }),
+      };
+      cyclic.cause = cyclic;
+
+      const revived = fromTransferable(
+        structuredClone(toTransferable(cyclic))
+      );
+      expect(revived?.cause).toBe(revived);
+    });
+
+    it("should return null for values that are not transferred TryErrors", () => {
+      expect(fromTransferable({ type: "Fake", message: "nope" })).toBeNull();
+      expect(fromTransferable("error")).toBeNull();
+      expect(fromTransferable(null)).toBeNull();
+    });
+  });
+
+  describe("tryInWorker", () => {
+    it("should return the worker's result", async () => {
+      const result = await tryInWorker((n: number) => n * 2, 21);
+      expect(result).toBe(42);
+    });
+
+    it("should await async tasks", async () => {
+      const result = await tryInWorker(
+        async (data: { items: number[] }) =>
+          data.items.reduce((sum, item) => sum + item, 0),
+        { items: [1, 2, 3] }
+      );
+      expect(result).toBe(6);
+    });
+
+    it("should convert thrown errors with the worker stack", async () => {
+      const result = await tryInWorker((n: number) => {
+        if (n < 0) {
+          throw new RangeError("n must be positive");
+        }
+        return n;
+      }, -1);
+
+      expect(isTryError(result)).toBe(true);
+      if (isTryError(result)) {
+        expect(result.type).toBe("RangeError");
+        expect(result.message).toBe("n must be positive");
+        expect(result.stack).toMatch(/^RangeError: n must be positive/);
+        expect(result.source).toMatch(/:\d+:\d+$/);
+        expect(result.cause).toBeInstanceOf(Error);
+      }
+    });
+
+    it("should rebrand TryErrors returned by the worker", async () => {
+      const result = await tryInWorker(() => {
+        const brand = Symbol("try-error.TryError");
+        return {
+          [brand]: true,
+          type: "WorkerValidation",
+          message: "invalid input",
+          source: "worker.js:10:5",
+          timestamp: 1,
+          stack: "WorkerValidation: invalid input",
+        };
+      }, null);
+
+      expect(isTryError(result)).toBe(true);
+      if (isTryError(result)) {
+        expect(result.type).toBe("WorkerValidation");
+        expect(result.source).toBe("worker.js:10:5");
+        expect(result.stack).toBe("WorkerValidation: invalid input");
+      }
+    });
+
+    it("should keep the type and context of thrown TryErrors", async () => {
+      const result = await tryInWorker((id: string) => {
+        const brand = Symbol("try-error.TryError");
+        throw {
+          [brand]: true,
+          type: "UserNotFound",
+          message: `user ${id} not found`,
+          source: "worker.js:3:7",
+          timestamp: 1,
+          context: { id },
+        };
+      }, "u_1");
+
+      expect(isTryError(result)).toBe(true);
+      if (isTryError(result)) {
+        expect(result.type).toBe("UserNotFound");
+        expect(result.message).toBe("user u_1 not found");
+        expect(result.context).toEqual({ id: "u_1" });
+        expect(result.source).toBe("worker.js:3:7");
+      }
+    });
+
+    it("should report values that cannot be cloned", async () => {
+      const result = await tryInWorker(() => () => "not cloneable", null);
+
+      expect(isTryError(result)).toBe(true);
+      if (isTryError(result)) {
+        expect(result.type).toBe("DataCloneError");
+      }
+    });
+  });
+});
@@ -539,6 +539,62 @@ const inventoryResult = trySync(() => {
           </div>
         </section>
 
+        {/* Error Catalogs */}
+        <section>
+          <h2 className="text-2xl font-semibold text-slate-900 mb-4">
+            Defining an Error Catalog
+          </h2>
+
+          <p className="text-slate-600 mb-4">
+            Declare your application&apos;s error codes once with{" "}
+            <code>defineErrorCatalog</code>. The catalog generates typed
+            factories, type guards and lookups for HTTP status and
+            retryability, so this reference and your code cannot drift apart.
+          </p>
+
+          <div className="bg-slate-900 text-slate-100 p-4 rounded-lg mb-4">
+            <CodeBlock>
+              {`import { defineErrorCatalog, CatalogErrorUnion } from 'try-error';
+
+export const AppErrors = defineErrorCatalog({
+  UserNotFound: {
+    code: 'E1001',
+    status: 404,
+    severity: 'warning',
+    retryable: false,
+    message: 'User {id} not found',
+  },
+  UpstreamUnavailable: {
+    code: 'E2001',
+    status: 503,
+    retryable: true,
+    message: 'Upstream service unavailable',
+  },
+});
+
+export type AppError = CatalogErrorUnion<typeof AppErrors>;
+
+// Typed factory - "id" is required by the message template
+const error = AppErrors.factories.UserNotFound({ id: '42' });
+error.code; // "E1001"
+
+// Type guards and lookups
+if (AppErrors.guards.UserNotFound(result)) {
+  res.status(AppErrors.getStatus(result) ?? 500).json({ code: result.code });
+}
+AppErrors.isRetryable(error); // false
+AppErrors.findByCode('E2001'); // "UpstreamUnavailable"`}
+            </CodeBlock>
+          </div>
+
+          <p className="text-slate-600">
+            Catalog definitions are also visible through{" "}
+            <code>getErrorDefinition(error)</code>, which helpers such as{" "}
+            <code>isRetryableError</code> in <code>@try-error/react</code>{" "}
+            consult before falling back to their built-in rules.
+          </p>
+        </section>
+
         {/* Error Code Utilities */}
         <section>
           <h2 className="text-2xl font-semibold text-slate-900 mb-4">